@@ -65,6 +65,16 @@ echo.
 echo [INFO] To install as Windows service, run: setup.ps1
 echo.
 
+REM The supervisor starts whichever version install-state.json points at and
+REM handles the restart, health check and rollback after an update
+if exist "!APP_DIR!supervisor.mjs" (
+    echo [INFO] Starting supervisor from: !APP_DIR!
+    echo.
+    node "!APP_DIR!supervisor.mjs"
+    exit /b !errorlevel!
+)
+
+REM Legacy layout without supervisor: run the server directly
 REM Change to standalone directory and start server
 cd /d "!STANDALONE_DIR!"
 echo [INFO] Starting server from: !CD!
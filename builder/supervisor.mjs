@@ -0,0 +1,192 @@
+// Orbis Ship supervisor - started by run.bat, never replaced by updates.
+//
+// Runs the server of whichever version install-state.json points at and
+// restarts it when it exits with RESTART_EXIT_CODE (an update or rollback
+// was just activated). A freshly activated version is "pending" until it
+// answers /api/health with its own version; if it does not within the
+// timeout, the supervisor switches back to the previous version and
+// restores the pre-update database snapshot.
+//
+// The state format is shared with lib/updater/install.ts.
+//
+// Environment:
+//   ORBIS_HEALTH_URL                  default http://localhost:$PORT/api/health
+//   ORBIS_HEALTH_TIMEOUT_SECONDS      default 120
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const INSTALL_ROOT = path.dirname(fileURLToPath(import.meta.url));
+const STATE_FILE = path.join(INSTALL_ROOT, 'install-state.json');
+const RESTART_EXIT_CODE = 75;
+const HEALTH_URL = process.env.ORBIS_HEALTH_URL || `http://localhost:${process.env.PORT || 3000}/api/health`;
+const HEALTH_TIMEOUT_MS = Number(process.env.ORBIS_HEALTH_TIMEOUT_SECONDS || 120) * 1000;
+const HEALTH_INTERVAL_MS = 2000;
+
+function log(message) {
+  console.log(`[supervisor] ${new Date().toISOString()} ${message}`);
+}
+
+function readState() {
+  if (!fs.existsSync(STATE_FILE)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(STATE_FILE, 'utf8'));
+}
+
+function writeState(state) {
+  const tempPath = `${STATE_FILE}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tempPath, STATE_FILE);
+}
+
+function standaloneDir(installed) {
+  return path.resolve(INSTALL_ROOT, ...installed.path.split('/'), '.next', 'standalone');
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+let child = null;
+
+function startServer(installed) {
+  const cwd = standaloneDir(installed);
+  log(`Starting v${installed.version} from ${cwd}`);
+
+  child = spawn(process.execPath, ['server.js'], {
+    cwd,
+    stdio: 'inherit',
+    env: { ...process.env, ORBIS_INSTALL_ROOT: INSTALL_ROOT },
+  });
+
+  return new Promise(resolve => {
+    child.on('exit', (code, signal) => {
+      child = null;
+      resolve(code ?? (signal ? 1 : 0));
+    });
+    child.on('error', error => {
+      log(`Failed to start server: ${error.message}`);
+    });
+  });
+}
+
+async function waitForHealthy(version, exited) {
+  const deadline = Date.now() + HEALTH_TIMEOUT_MS;
+  let lastProblem = 'no response';
+
+  while (Date.now() < deadline) {
+    if (exited.done) {
+      return { healthy: false, problem: `server exited with code ${exited.code}` };
+    }
+    try {
+      const response = await fetch(HEALTH_URL, { signal: AbortSignal.timeout(HEALTH_INTERVAL_MS) });
+      const body = await response.json().catch(() => null);
+      if (response.ok && body?.status === 'ok') {
+        if (body.version === version) {
+          return { healthy: true };
+        }
+        lastProblem = `health check reports v${body.version}, expected v${version}`;
+      } else {
+        lastProblem = body?.message || `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      lastProblem = error.message;
+    }
+    await sleep(HEALTH_INTERVAL_MS);
+  }
+
+  return { healthy: false, problem: `not healthy after ${HEALTH_TIMEOUT_MS / 1000}s (${lastProblem})` };
+}
+
+function restoreDatabase(restorePoint) {
+  const { backupPath, databasePath } = restorePoint;
+  if (!fs.existsSync(backupPath)) {
+    log(`Pre-update backup ${backupPath} is missing; database left as is`);
+    return;
+  }
+  for (const suffix of ['-wal', '-shm']) {
+    fs.rmSync(databasePath + suffix, { force: true });
+  }
+  fs.copyFileSync(backupPath, databasePath);
+  log(`Restored database from ${backupPath}`);
+}
+
+function rollBack(state, problem) {
+  log(`v${state.current.version} failed its health check: ${problem}`);
+
+  if (!state.previous) {
+    log('No previous version to roll back to');
+    writeState({ ...state, status: 'healthy', failedVersion: state.current.version, message: problem, updatedAt: new Date().toISOString() });
+    return;
+  }
+
+  if (state.restorePoint) {
+    try {
+      restoreDatabase(state.restorePoint);
+    } catch (error) {
+      log(`Database restore failed: ${error.message}`);
+    }
+  }
+
+  writeState({
+    formatVersion: 1,
+    current: state.previous,
+    previous: null,
+    status: 'rolled-back',
+    updatedAt: new Date().toISOString(),
+    failedVersion: state.current.version,
+    message: `Rolled back from v${state.current.version}: ${problem}`,
+  });
+  log(`Rolled back to v${state.previous.version}`);
+}
+
+async function run() {
+  for (;;) {
+    const state = readState();
+    const current = state?.current ?? { version: 'unknown', path: '.' };
+
+    const exited = { done: false, code: 0 };
+    const exit = startServer(current).then(code => {
+      exited.done = true;
+      exited.code = code;
+      return code;
+    });
+
+    if (state?.status === 'pending') {
+      const result = await waitForHealthy(current.version, exited);
+      if (result.healthy) {
+        writeState({ ...state, status: 'healthy', restorePoint: undefined, updatedAt: new Date().toISOString() });
+        log(`v${current.version} is healthy`);
+      } else {
+        child?.kill();
+        await exit;
+        rollBack(state, result.problem);
+        continue;
+      }
+    }
+
+    const code = await exit;
+    if (code !== RESTART_EXIT_CODE) {
+      log(`Server exited with code ${code}`);
+      process.exit(code);
+    }
+    log('Restart requested');
+  }
+}
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => {
+    if (child) {
+      child.kill(signal);
+    } else {
+      process.exit(0);
+    }
+  });
+}
+
+run().catch(error => {
+  log(`Supervisor failed: ${error.stack || error.message}`);
+  process.exit(1);
+});
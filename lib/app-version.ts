@@ -0,0 +1,20 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createLogger } from './logger';
+
+const logger = createLogger('app');
+
+/**
+ * Version of the running build, from the package.json next to the server
+ * (the standalone build ships a copy of it).
+ */
+export function getAppVersion(): string | null {
+    try {
+        const packageJsonPath = path.join(process.cwd(), 'package.json');
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+        return packageJson.version || null;
+    } catch (error) {
+        logger.error('Failed to read package.json', error);
+        return null;
+    }
+}
@@ -0,0 +1,65 @@
+import type { NextRequest } from 'next/server';
+import databaseInitService from '../database-init';
+import { createLogger } from '../logger';
+import { forbiddenResponse, unauthenticatedResponse } from './edge';
+import { hasPermission, type Permission } from './permissions';
+import { getRequestSession } from './session-cookie';
+import type { Session } from './sessions';
+
+const logger = createLogger('auth');
+
+export type Authorization =
+    | { ok: true; session: Session }
+    | { ok: false; response: Response };
+
+/**
+ * Check that the request comes from a signed-in user holding the permission.
+ * The middleware only turns away requests without a session cookie; this is
+ * where the session itself is validated, so every non-public route must call
+ * it (or be wrapped in withPermission).
+ */
+export async function authorize(request: NextRequest, permission: Permission): Promise<Authorization> {
+    const authentication = await requireSession(request);
+    if (!authentication.ok) {
+        return authentication;
+    }
+    const { session } = authentication;
+    if (!hasPermission(session.user.role, permission)) {
+        logger.warn('Permission denied', { username: session.user.username, role: session.user.role, permission });
+        return { ok: false, response: forbiddenResponse(permission) };
+    }
+    return { ok: true, session };
+}
+
+/**
+ * Only check that the request comes from a signed-in user, for routes that
+ * decide what the user may do from the request itself (e.g. editing your
+ * own account).
+ */
+export async function requireSession(request: NextRequest): Promise<Authorization> {
+    await databaseInitService.ensureInitialized();
+
+    const session = await getRequestSession(request);
+    if (!session) {
+        return { ok: false, response: unauthenticatedResponse() };
+    }
+    return { ok: true, session };
+}
+
+/**
+ * Wrap a route handler that needs one permission for everything it does:
+ *
+ *   export const GET = withRequestContext(withPermission('users:read', async (request, context, session) => ...));
+ */
+export function withPermission<C = { params: Promise<Record<string, string>> }>(
+    permission: Permission,
+    handler: (request: NextRequest, context: C, session: Session) => Promise<Response> | Response,
+): (request: NextRequest, context: C) => Promise<Response> {
+    return async (request, context) => {
+        const authorization = await authorize(request, permission);
+        if (!authorization.ok) {
+            return authorization.response;
+        }
+        return handler(request, context, authorization.session);
+    };
+}
@@ -0,0 +1,79 @@
+import { randomBytes } from 'crypto';
+import { DatabaseManager } from '../database';
+import { hashPassword, verifyPassword } from '../password';
+import { createLogger } from '../logger';
+import type { SessionUser } from './sessions';
+
+const logger = createLogger('auth:credentials');
+
+interface CredentialRow {
+    id: number;
+    username: string;
+    email: string;
+    role: string;
+    password_hash: string;
+    disabled_at: string | null;
+}
+
+// Verified against when the username does not exist, so a failed login
+// takes as long either way and does not reveal which accounts exist
+let decoyHash: Promise<string> | null = null;
+
+function getDecoyHash(): Promise<string> {
+    decoyHash ??= hashPassword(randomBytes(16).toString('hex'));
+    return decoyHash;
+}
+
+/**
+ * Check a username and password. A hash made with outdated parameters is
+ * replaced while the plaintext is at hand.
+ */
+export async function authenticate(username: string, password: string): Promise<SessionUser | null> {
+    const database = DatabaseManager.getInstance();
+    const rows = await database.executeQuery(
+        'SELECT id, username, email, role, password_hash, disabled_at FROM users WHERE username = ?',
+        [username],
+    ) as CredentialRow[];
+    const user = rows[0];
+
+    if (!user) {
+        await verifyPassword(password, await getDecoyHash());
+        return null;
+    }
+
+    const { valid, needsRehash } = await verifyPassword(password, user.password_hash);
+    // Checked after verifying, so a disabled account looks like a wrong password
+    if (!valid || user.disabled_at !== null) {
+        return null;
+    }
+
+    if (needsRehash) {
+        try {
+            await database.executeQuery(
+                "UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE id = ?",
+                [await hashPassword(password), user.id],
+            );
+            logger.info('Upgraded password hash', { userId: user.id });
+        } catch (error) {
+            // The old hash still works; try again next time
+            logger.warn('Failed to upgrade password hash', { userId: user.id, error });
+        }
+    }
+
+    return { id: user.id, username: user.username, email: user.email, role: user.role };
+}
+
+/**
+ * Re-check a signed-in user's password, e.g. before they change it, so a
+ * borrowed session is not enough to take over the account.
+ */
+export async function verifyCurrentPassword(userId: number, password: string): Promise<boolean> {
+    const rows = await DatabaseManager.getInstance().executeQuery(
+        'SELECT password_hash FROM users WHERE id = ?',
+        [userId],
+    ) as Pick<CredentialRow, 'password_hash'>[];
+    if (!rows[0]) {
+        return false;
+    }
+    return (await verifyPassword(password, rows[0].password_hash)).valid;
+}
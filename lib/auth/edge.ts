@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import type { Permission } from './permissions';
+
+// The parts of the auth layer src/middleware.ts shares with the routes. The
+// middleware runs on the edge runtime, so nothing here may reach the
+// database or Node-only modules.
+
+export const SESSION_COOKIE = 'orbis_session';
+
+export function unauthenticatedResponse(): NextResponse {
+    return NextResponse.json(
+        { success: false, error: 'Authentication required', code: 'unauthenticated' },
+        { status: 401 },
+    );
+}
+
+export function forbiddenResponse(permission: Permission): NextResponse {
+    return NextResponse.json(
+        { success: false, error: `Permission denied: requires ${permission}`, code: 'forbidden', permission },
+        { status: 403 },
+    );
+}
@@ -0,0 +1,50 @@
+// Which role may do what. Routes ask for a permission, never for a role,
+// so widening or narrowing a role is a change to this table alone.
+
+export type Role = 'admin' | 'moderator' | 'user';
+
+export type Permission =
+    | 'users:read'
+    | 'users:write'
+    /** Give accounts a role other than user, or change an account's role */
+    | 'users:manage-roles'
+    | 'updater:read'
+    /** Start or stop the background checker, check now, change channel or policy */
+    | 'updater:manage'
+    /** Install, cancel or roll back an update; restarts the application */
+    | 'updater:install'
+    | 'database:read'
+    /** Initialize, rekey, back up and restore the database, and see where it lives */
+    | 'database:admin'
+    | 'config:read'
+    | 'config:write';
+
+export const ROLES: Role[] = ['admin', 'moderator', 'user'];
+
+const ALL_PERMISSIONS: Permission[] = [
+    'users:read',
+    'users:write',
+    'users:manage-roles',
+    'updater:read',
+    'updater:manage',
+    'updater:install',
+    'database:read',
+    'database:admin',
+    'config:read',
+    'config:write',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+    admin: ALL_PERMISSIONS,
+    moderator: ['users:read', 'users:write', 'updater:read', 'database:read', 'config:read'],
+    user: ['updater:read'],
+};
+
+export function isRole(value: unknown): value is Role {
+    return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+/** Unknown roles, e.g. from a hand-edited row, get no permissions */
+export function hasPermission(role: string, permission: Permission): boolean {
+    return isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,53 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { envService } from '../environment.service';
+import { SESSION_COOKIE } from './edge';
+import { sessionService, type Session, type SessionClient } from './sessions';
+
+function isSecure(request: NextRequest): boolean {
+    const configured = envService.getConfig().sessionCookieSecure;
+    if (configured !== undefined) {
+        return configured;
+    }
+    return request.nextUrl.protocol === 'https:' || request.headers.get('x-forwarded-proto') === 'https';
+}
+
+export function getSessionToken(request: NextRequest): string | undefined {
+    return request.cookies.get(SESSION_COOKIE)?.value;
+}
+
+/** The signed-in session of a request, if its cookie is still valid */
+export async function getRequestSession(request: NextRequest): Promise<Session | null> {
+    const token = getSessionToken(request);
+    return token ? sessionService.validateSession(token) : null;
+}
+
+export function getSessionClient(request: NextRequest): SessionClient {
+    return {
+        userAgent: request.headers.get('user-agent'),
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip'),
+    };
+}
+
+/**
+ * The cookie lives until the absolute expiry; the idle timeout is enforced
+ * server-side, so activity never needs to rewrite the cookie.
+ */
+export function setSessionCookie(response: NextResponse, request: NextRequest, token: string, session: Session): void {
+    response.cookies.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: isSecure(request),
+        path: '/',
+        expires: new Date(session.absoluteExpiresAt),
+    });
+}
+
+export function clearSessionCookie(response: NextResponse, request: NextRequest): void {
+    response.cookies.set(SESSION_COOKIE, '', {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: isSecure(request),
+        path: '/',
+        maxAge: 0,
+    });
+}
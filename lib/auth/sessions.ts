@@ -0,0 +1,205 @@
+import { createHash, randomBytes } from 'crypto';
+import { DatabaseManager } from '../database';
+import { envService } from '../environment.service';
+import { createLogger } from '../logger';
+
+const logger = createLogger('auth:sessions');
+
+export interface SessionUser {
+    id: number;
+    username: string;
+    email: string;
+    role: string;
+}
+
+export interface Session {
+    /** Hash of the cookie value, safe to show; the cookie value itself is never stored */
+    id: string;
+    user: SessionUser;
+    createdAt: string;
+    lastSeenAt: string;
+    /** Sliding expiry, pushed back on activity but never past absoluteExpiresAt */
+    expiresAt: string;
+    absoluteExpiresAt: string;
+}
+
+export interface NewSession {
+    /** Goes into the cookie; only its hash is kept in the database */
+    token: string;
+    session: Session;
+}
+
+export interface SessionClient {
+    userAgent?: string | null;
+    ipAddress?: string | null;
+}
+
+interface SessionRow {
+    id: string;
+    user_id: number;
+    created_at: string;
+    last_seen_at: string;
+    expires_at: string;
+    absolute_expires_at: string;
+    username: string;
+    email: string;
+    role: string;
+}
+
+const TOKEN_BYTES = 32;
+// Activity within this long of the last recorded use does not rewrite the row
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const PURGE_INTERVAL_MS = 15 * 60 * 1000;
+const TOKEN_FORMAT = /^[A-Za-z0-9_-]{43}$/;
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+function toSession(row: SessionRow): Session {
+    return {
+        id: row.id,
+        user: { id: row.user_id, username: row.username, email: row.email, role: row.role },
+        createdAt: row.created_at,
+        lastSeenAt: row.last_seen_at,
+        expiresAt: row.expires_at,
+        absoluteExpiresAt: row.absolute_expires_at,
+    };
+}
+
+function idleTimeoutMs(): number {
+    return envService.getConfig().sessionIdleTimeoutMinutes * 60 * 1000;
+}
+
+function slidingExpiry(now: number, absoluteExpiresAt: string): string {
+    return new Date(Math.min(now + idleTimeoutMs(), new Date(absoluteExpiresAt).getTime())).toISOString();
+}
+
+export class SessionService {
+    private static instance: SessionService;
+    private purgeTimer: NodeJS.Timeout | null = null;
+
+    private constructor() {}
+
+    public static getInstance(): SessionService {
+        if (!SessionService.instance) {
+            SessionService.instance = new SessionService();
+        }
+        return SessionService.instance;
+    }
+
+    public async createSession(user: SessionUser, client: SessionClient = {}): Promise<NewSession> {
+        const token = randomBytes(TOKEN_BYTES).toString('base64url');
+        const now = Date.now();
+        const createdAt = new Date(now).toISOString();
+        const absoluteExpiresAt = new Date(now + envService.getConfig().sessionMaxLifetimeHours * 60 * 60 * 1000).toISOString();
+        const expiresAt = slidingExpiry(now, absoluteExpiresAt);
+        const id = hashToken(token);
+
+        await DatabaseManager.getInstance().executeQuery(
+            `INSERT INTO sessions (id, user_id, created_at, last_seen_at, expires_at, absolute_expires_at, user_agent, ip_address)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, user.id, createdAt, createdAt, expiresAt, absoluteExpiresAt, client.userAgent?.slice(0, 512) ?? null, client.ipAddress ?? null],
+        );
+
+        logger.info('Session created', { userId: user.id, username: user.username });
+        return {
+            token,
+            session: { id, user, createdAt, lastSeenAt: createdAt, expiresAt, absoluteExpiresAt },
+        };
+    }
+
+    /**
+     * Look up the session behind a cookie value and record the activity,
+     * which extends its sliding expiry. Expired sessions are removed here as
+     * well as by the purge, so they never validate in between.
+     */
+    public async validateSession(token: string): Promise<Session | null> {
+        if (!TOKEN_FORMAT.test(token)) {
+            return null;
+        }
+
+        const database = DatabaseManager.getInstance();
+        const id = hashToken(token);
+        const rows = await database.executeQuery(
+            `SELECT s.id, s.user_id, s.created_at, s.last_seen_at, s.expires_at, s.absolute_expires_at, u.username, u.email, u.role
+             FROM sessions s JOIN users u ON u.id = s.user_id
+             WHERE s.id = ? AND u.disabled_at IS NULL`,
+            [id],
+        ) as SessionRow[];
+        if (rows.length === 0) {
+            return null;
+        }
+
+        const session = toSession(rows[0]);
+        const now = Date.now();
+        if (new Date(session.expiresAt).getTime() <= now || new Date(session.absoluteExpiresAt).getTime() <= now) {
+            await database.executeQuery('DELETE FROM sessions WHERE id = ?', [id]);
+            return null;
+        }
+
+        if (now - new Date(session.lastSeenAt).getTime() >= TOUCH_INTERVAL_MS) {
+            session.lastSeenAt = new Date(now).toISOString();
+            session.expiresAt = slidingExpiry(now, session.absoluteExpiresAt);
+            await database.executeQuery(
+                'UPDATE sessions SET last_seen_at = ?, expires_at = ? WHERE id = ?',
+                [session.lastSeenAt, session.expiresAt, id],
+            );
+        }
+        return session;
+    }
+
+    public async revokeSession(token: string): Promise<void> {
+        await DatabaseManager.getInstance().executeQuery('DELETE FROM sessions WHERE id = ?', [hashToken(token)]);
+    }
+
+    /**
+     * Sign a user out everywhere, optionally except the session making the
+     * request; returns how many sessions were ended.
+     */
+    public async revokeUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+        const result = await DatabaseManager.getInstance().executeQuery(
+            'DELETE FROM sessions WHERE user_id = ? AND id IS NOT ?',
+            [userId, exceptSessionId ?? null],
+        ) as { changes: number };
+        logger.info('Signed out all sessions of user', { userId, sessions: result.changes });
+        return result.changes;
+    }
+
+    public async purgeExpiredSessions(): Promise<number> {
+        const now = new Date().toISOString();
+        const result = await DatabaseManager.getInstance().executeQuery(
+            'DELETE FROM sessions WHERE expires_at <= ? OR absolute_expires_at <= ?',
+            [now, now],
+        ) as { changes: number };
+        if (result.changes > 0) {
+            logger.debug('Purged expired sessions', { sessions: result.changes });
+        }
+        return result.changes;
+    }
+
+    public startPurgeSchedule(): void {
+        if (this.purgeTimer) {
+            return;
+        }
+
+        const runPurge = () => {
+            this.purgeExpiredSessions().catch(error => {
+                logger.error('Session purge failed', error);
+            });
+        };
+
+        runPurge();
+        this.purgeTimer = setInterval(runPurge, PURGE_INTERVAL_MS);
+        this.purgeTimer.unref();
+    }
+
+    public stopPurgeSchedule(): void {
+        if (this.purgeTimer) {
+            clearInterval(this.purgeTimer);
+            this.purgeTimer = null;
+        }
+    }
+}
+
+export const sessionService = SessionService.getInstance();
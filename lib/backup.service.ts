@@ -0,0 +1,297 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { DatabaseManager } from './database';
+import { envService } from './environment.service';
+import { createLogger } from './logger';
+import { getInstallRoot, readInstallState } from './updater/install';
+
+const logger = createLogger('backup');
+
+export type BackupReason = 'manual' | 'scheduled' | 'pre-update' | 'pre-restore' | 'pre-rollback';
+
+export interface BackupInfo {
+    id: string;
+    fileName: string;
+    reason: BackupReason;
+    createdAt: string;
+    sizeBytes: number;
+    sha256: string;
+    schemaVersion: number;
+    /** Which key the snapshot is encrypted with */
+    encryptedWith: 'database-key' | 'backup-key';
+}
+
+const BACKUP_ID_PATTERN = /^orbis-[0-9TZ-]+-[a-z-]+$/;
+
+export class InvalidBackupIdError extends Error {
+    constructor(id: string) {
+        super(`Invalid backup id: ${id}`);
+        this.name = 'InvalidBackupIdError';
+    }
+}
+
+export class BackupNotFoundError extends Error {
+    constructor(id: string) {
+        super(`Backup not found: ${id}`);
+        this.name = 'BackupNotFoundError';
+    }
+}
+
+export class BackupService {
+    private static instance: BackupService;
+    private scheduleTimer: NodeJS.Timeout | null = null;
+
+    private constructor() {
+        // Pick up a changed backup interval without a restart
+        envService.onChange((changes) => {
+            if (this.scheduleTimer && changes.some(change => change.key === 'backupIntervalHours')) {
+                this.stopSchedule();
+                this.startSchedule();
+            }
+        });
+    }
+
+    public static getInstance(): BackupService {
+        if (!BackupService.instance) {
+            BackupService.instance = new BackupService();
+        }
+        return BackupService.instance;
+    }
+
+    public getBackupDirectory(): string {
+        const dir = DatabaseManager.getInstance().getDataPaths().backupsDir;
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        return dir;
+    }
+
+    /**
+     * Separate key for snapshots, if configured. Otherwise snapshots stay
+     * encrypted with the database key.
+     */
+    private getBackupKey(): string | undefined {
+        return envService.getConfig().backupEncryptionKey;
+    }
+
+    private getManifestPath(id: string): string {
+        return path.join(this.getBackupDirectory(), `${id}.json`);
+    }
+
+    private assertValidId(id: string): void {
+        if (typeof id !== 'string' || !BACKUP_ID_PATTERN.test(id)) {
+            throw new InvalidBackupIdError(id);
+        }
+    }
+
+    /**
+     * Take a consistent online snapshot, verify it, record its manifest and
+     * apply the retention policy.
+     */
+    public async createBackup(reason: BackupReason = 'manual'): Promise<BackupInfo> {
+        const database = DatabaseManager.getInstance();
+        const backupKey = this.getBackupKey();
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const id = `orbis-${timestamp}-${reason}`;
+        const fileName = `${id}.db`;
+        const filePath = path.join(this.getBackupDirectory(), fileName);
+
+        logger.info('Creating backup', { reason, file: filePath });
+
+        try {
+            database.snapshotTo(filePath, backupKey);
+            const { schemaVersion } = database.verifySnapshot(filePath, backupKey);
+
+            const info: BackupInfo = {
+                id,
+                fileName,
+                reason,
+                createdAt: new Date().toISOString(),
+                sizeBytes: fs.statSync(filePath).size,
+                sha256: await this.hashFile(filePath),
+                schemaVersion,
+                encryptedWith: backupKey ? 'backup-key' : 'database-key',
+            };
+            fs.writeFileSync(this.getManifestPath(id), JSON.stringify(info, null, 2));
+
+            logger.info('Backup created', { id, sizeBytes: info.sizeBytes });
+            this.applyRetention();
+            return info;
+        } catch (error) {
+            fs.rmSync(filePath, { force: true });
+            logger.error('Backup failed', { reason, error });
+            throw error;
+        }
+    }
+
+    public listBackups(): BackupInfo[] {
+        const dir = this.getBackupDirectory();
+        const backups: BackupInfo[] = [];
+
+        for (const file of fs.readdirSync(dir)) {
+            if (!file.endsWith('.json')) {
+                continue;
+            }
+            try {
+                const info = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as BackupInfo;
+                if (fs.existsSync(path.join(dir, info.fileName))) {
+                    backups.push(info);
+                }
+            } catch (error) {
+                logger.warn('Skipping unreadable backup manifest', { file, error });
+            }
+        }
+
+        return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    public getBackup(id: string): BackupInfo | null {
+        this.assertValidId(id);
+        return this.listBackups().find(backup => backup.id === id) ?? null;
+    }
+
+    public deleteBackup(id: string): boolean {
+        const info = this.getBackup(id);
+        if (!info) {
+            return false;
+        }
+        fs.rmSync(path.join(this.getBackupDirectory(), info.fileName), { force: true });
+        fs.rmSync(this.getManifestPath(id), { force: true });
+        logger.info('Deleted backup', { id });
+        return true;
+    }
+
+    /**
+     * Restore a snapshot over the live database. The snapshot is checked
+     * (hash, integrity, schema version) first, and the current state is
+     * saved as a pre-restore backup so the restore itself can be undone.
+     */
+    public async restoreBackup(id: string): Promise<BackupInfo> {
+        const info = this.getBackup(id);
+        if (!info) {
+            throw new BackupNotFoundError(id);
+        }
+
+        const database = DatabaseManager.getInstance();
+        const filePath = path.join(this.getBackupDirectory(), info.fileName);
+        const snapshotKey = info.encryptedWith === 'backup-key' ? this.getBackupKey() : undefined;
+
+        if (info.encryptedWith === 'backup-key' && !snapshotKey) {
+            throw new Error('Backup is encrypted with BACKUP_ENCRYPTION_KEY, which is not configured');
+        }
+
+        if (await this.hashFile(filePath) !== info.sha256) {
+            throw new Error(`Backup ${id} does not match its recorded checksum`);
+        }
+
+        const { schemaVersion } = database.verifySnapshot(filePath, snapshotKey);
+        const currentStatus = await database.getMigrationStatus();
+        if (schemaVersion > currentStatus.latestVersion) {
+            throw new Error(`Backup ${id} has schema version ${schemaVersion}, newer than this build supports (${currentStatus.latestVersion})`);
+        }
+
+        await this.createBackup('pre-restore');
+
+        logger.info('Restoring backup', { id });
+        database.restoreFrom(filePath, snapshotKey);
+
+        // Older snapshots are brought up to the current schema
+        await database.migrate();
+
+        logger.info('Backup restored', { id });
+        return info;
+    }
+
+    /**
+     * Keep at most BACKUP_RETENTION_COUNT snapshots and drop any older than
+     * BACKUP_RETENTION_DAYS. The newest snapshot is always kept, and so is
+     * the pre-update snapshot of an install still waiting for its health
+     * check, which the supervisor restores if it rolls the update back.
+     */
+    public applyRetention(): void {
+        const maxCount = envService.getConfig().backupRetentionCount;
+        const maxAgeDays = envService.getConfig().backupRetentionDays;
+        const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+        let restorePoint: string | null;
+        try {
+            restorePoint = this.getRestorePointPath();
+        } catch (error) {
+            // Cannot tell which snapshot a rollback needs, so delete none
+            logger.warn('Skipping backup retention: install state is unreadable', error);
+            return;
+        }
+
+        const backups = this.listBackups();
+        backups.slice(1).forEach((backup, index) => {
+            const tooMany = maxCount > 0 && index + 1 >= maxCount;
+            const tooOld = maxAgeDays > 0 && new Date(backup.createdAt).getTime() < cutoff;
+            if (!(tooMany || tooOld)) {
+                return;
+            }
+            if (path.resolve(this.getBackupDirectory(), backup.fileName) === restorePoint) {
+                logger.info('Keeping backup past retention: a pending update may still be rolled back to it', { id: backup.id });
+                return;
+            }
+            this.deleteBackup(backup.id);
+        });
+    }
+
+    /** Snapshot install-state.json points the supervisor at, if any */
+    private getRestorePointPath(): string | null {
+        const installRoot = getInstallRoot();
+        if (!installRoot) {
+            return null;
+        }
+        const { restorePoint } = readInstallState(installRoot, null);
+        return restorePoint ? path.resolve(restorePoint.backupPath) : null;
+    }
+
+    /**
+     * Take scheduled snapshots every BACKUP_INTERVAL_HOURS (0 disables).
+     * A snapshot is taken straight away if the last one is overdue.
+     */
+    public startSchedule(): void {
+        const intervalHours = envService.getConfig().backupIntervalHours;
+        if (this.scheduleTimer || intervalHours <= 0) {
+            return;
+        }
+
+        const intervalMs = intervalHours * 60 * 60 * 1000;
+        const runScheduled = () => {
+            this.createBackup('scheduled').catch(error => {
+                logger.error('Scheduled backup failed', error);
+            });
+        };
+
+        const lastScheduled = this.listBackups().find(backup => backup.reason === 'scheduled');
+        if (!lastScheduled || Date.now() - new Date(lastScheduled.createdAt).getTime() >= intervalMs) {
+            runScheduled();
+        }
+
+        this.scheduleTimer = setInterval(runScheduled, intervalMs);
+        this.scheduleTimer.unref();
+        logger.info('Scheduled backups enabled', { intervalHours });
+    }
+
+    public stopSchedule(): void {
+        if (this.scheduleTimer) {
+            clearInterval(this.scheduleTimer);
+            this.scheduleTimer = null;
+        }
+    }
+
+    private hashFile(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = crypto.createHash('sha256');
+            fs.createReadStream(filePath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
+    }
+}
+
+export const backupService = BackupService.getInstance();
@@ -0,0 +1,340 @@
+// Declarative schema for every configuration value the application reads.
+// EnvironmentService validates the environment against it once at startup
+// and hands out the resulting typed AppConfig object.
+
+type DefaultValue<T> = T | ((environment: string) => T);
+
+interface BaseOption {
+    /** Environment variable the value is read from */
+    env: string;
+    description: string;
+    /** Secrets are redacted from config dumps and logs, and never hot-reloaded */
+    secret?: boolean;
+    /** Changes only take effect after a restart, so hot reload skips them */
+    restartRequired?: boolean;
+    required?: boolean;
+}
+
+interface StringOption extends BaseOption {
+    type: 'string';
+    default?: DefaultValue<string>;
+    pattern?: RegExp;
+}
+
+interface NumberOption extends BaseOption {
+    type: 'number';
+    default?: DefaultValue<number>;
+    min?: number;
+    max?: number;
+    integer?: boolean;
+}
+
+interface BooleanOption extends BaseOption {
+    type: 'boolean';
+    default?: DefaultValue<boolean>;
+}
+
+interface EnumOption<T extends string = string> extends BaseOption {
+    type: 'enum';
+    values: readonly T[];
+    default?: DefaultValue<T>;
+}
+
+export type ConfigOption = StringOption | NumberOption | BooleanOption | EnumOption;
+
+export const configSchema = {
+    nodeEnv: {
+        env: 'NODE_ENV',
+        type: 'enum',
+        values: ['development', 'production', 'test'],
+        default: 'development',
+        restartRequired: true,
+        description: 'Runtime environment; selects the .env file, database file and key handling',
+    },
+    port: {
+        env: 'PORT',
+        type: 'number',
+        integer: true,
+        min: 1,
+        max: 65535,
+        default: 3000,
+        restartRequired: true,
+        description: 'HTTP port the server listens on',
+    },
+    host: {
+        env: 'HOST',
+        type: 'string',
+        default: 'localhost',
+        restartRequired: true,
+        description: 'Host name the server binds to',
+    },
+    logLevel: {
+        env: 'LOG_LEVEL',
+        type: 'enum',
+        values: ['debug', 'info', 'warn', 'error'],
+        default: (environment: string) => environment === 'development' ? 'debug' : 'info',
+        description: 'Minimum level of log messages to write',
+    },
+    logFormat: {
+        env: 'LOG_FORMAT',
+        type: 'enum',
+        values: ['pretty', 'json'],
+        default: (environment: string) => environment === 'production' ? 'json' : 'pretty',
+        description: 'Console log format: human-readable lines or one JSON object per line',
+    },
+    logToFile: {
+        env: 'LOG_TO_FILE',
+        type: 'boolean',
+        default: (environment: string) => environment !== 'test',
+        description: 'Also write JSON logs to orbis.log in the logs directory',
+    },
+    logMaxFileSizeMb: {
+        env: 'LOG_MAX_FILE_SIZE_MB',
+        type: 'number',
+        min: 1,
+        default: 10,
+        description: 'Size in MB at which the log file is rotated',
+    },
+    logMaxFiles: {
+        env: 'LOG_MAX_FILES',
+        type: 'number',
+        integer: true,
+        min: 1,
+        max: 100,
+        default: 5,
+        description: 'Number of log files kept, including the current one',
+    },
+    dataDir: {
+        env: 'ORBIS_DATA_DIR',
+        type: 'string',
+        restartRequired: true,
+        description: 'Override for the data directory (database, backups, logs, key file)',
+    },
+    databaseEncryptionKey: {
+        env: 'DATABASE_ENCRYPTION_KEY',
+        type: 'string',
+        secret: true,
+        description: 'SQLCipher key for the database; takes precedence over the key file',
+    },
+    databaseEncryptionKeyFile: {
+        env: 'DATABASE_ENCRYPTION_KEY_FILE',
+        type: 'string',
+        restartRequired: true,
+        description: 'Path of a file holding the database key, or "-" to read it from stdin',
+    },
+    databaseReaderPoolSize: {
+        env: 'DATABASE_READER_POOL_SIZE',
+        type: 'number',
+        integer: true,
+        min: 0,
+        max: 16,
+        default: 2,
+        restartRequired: true,
+        description: 'Number of read-only database connections kept open alongside the writer',
+    },
+    backupEncryptionKey: {
+        env: 'BACKUP_ENCRYPTION_KEY',
+        type: 'string',
+        secret: true,
+        description: 'Separate key for backup snapshots; defaults to the database key',
+    },
+    backupIntervalHours: {
+        env: 'BACKUP_INTERVAL_HOURS',
+        type: 'number',
+        min: 0,
+        default: 24,
+        description: 'Hours between scheduled backups (0 disables scheduled backups)',
+    },
+    backupRetentionCount: {
+        env: 'BACKUP_RETENTION_COUNT',
+        type: 'number',
+        integer: true,
+        min: 0,
+        default: 10,
+        description: 'Maximum number of backups to keep (0 for unlimited)',
+    },
+    backupRetentionDays: {
+        env: 'BACKUP_RETENTION_DAYS',
+        type: 'number',
+        min: 0,
+        default: 30,
+        description: 'Delete backups older than this many days (0 to keep forever)',
+    },
+    passwordHashCost: {
+        env: 'PASSWORD_HASH_COST',
+        type: 'number',
+        integer: true,
+        min: 14,
+        max: 20,
+        default: 15,
+        description: 'scrypt cost for password hashes as a power of two (15 = 32 MiB per hash); existing hashes are upgraded at the next login',
+    },
+    passwordMinLength: {
+        env: 'PASSWORD_MIN_LENGTH',
+        type: 'number',
+        integer: true,
+        min: 8,
+        max: 128,
+        default: 12,
+        description: 'Minimum length of new passwords',
+    },
+    sessionIdleTimeoutMinutes: {
+        env: 'SESSION_IDLE_TIMEOUT_MINUTES',
+        type: 'number',
+        min: 5,
+        default: 480,
+        description: 'Sign-in sessions end after this many minutes without a request',
+    },
+    sessionMaxLifetimeHours: {
+        env: 'SESSION_MAX_LIFETIME_HOURS',
+        type: 'number',
+        min: 1,
+        default: 168,
+        description: 'Sign-in sessions end this many hours after login, however active they are',
+    },
+    sessionCookieSecure: {
+        env: 'SESSION_COOKIE_SECURE',
+        type: 'boolean',
+        description: 'Mark the session cookie Secure; unset means only when the request arrived over HTTPS',
+    },
+    updaterEnabled: {
+        env: 'UPDATER_ENABLED',
+        type: 'boolean',
+        default: true,
+        restartRequired: true,
+        description: 'Start the background update checker automatically',
+    },
+    updaterSource: {
+        env: 'UPDATER_SOURCE',
+        type: 'enum',
+        values: ['github', 'http', 'local'],
+        default: 'github',
+        description: 'Where releases come from: GitHub Releases, an HTTP release feed, or a local directory',
+    },
+    updaterRepository: {
+        env: 'UPDATER_REPOSITORY',
+        type: 'string',
+        pattern: /^[\w.-]+\/[\w.-]+$/,
+        default: 'mehtabshadan/orbis-ship',
+        description: 'GitHub repository (owner/name) releases are fetched from when UPDATER_SOURCE=github',
+    },
+    updaterFeedUrl: {
+        env: 'UPDATER_FEED_URL',
+        type: 'string',
+        pattern: /^https?:\/\/\S+$/,
+        description: 'Release feed URL (JSON in the GitHub Releases API shape) when UPDATER_SOURCE=http',
+    },
+    updaterLocalPath: {
+        env: 'UPDATER_LOCAL_PATH',
+        type: 'string',
+        description: 'Directory or drive holding release files when UPDATER_SOURCE=local',
+    },
+    updaterCheckIntervalMinutes: {
+        env: 'UPDATER_CHECK_INTERVAL_MINUTES',
+        type: 'number',
+        min: 1,
+        default: 60,
+        description: 'Minutes between background update checks',
+    },
+    updaterCheckJitterMinutes: {
+        env: 'UPDATER_CHECK_JITTER_MINUTES',
+        type: 'number',
+        min: 0,
+        default: 10,
+        description: 'Random delay of up to this many minutes added to each scheduled check, so a fleet does not hit the update source all at once',
+    },
+} as const satisfies Record<string, ConfigOption>;
+
+export type ConfigSchema = typeof configSchema;
+export type ConfigKey = keyof ConfigSchema;
+
+type OptionValue<O> =
+    O extends { type: 'number' } ? number :
+    O extends { type: 'boolean' } ? boolean :
+    O extends { type: 'enum'; values: readonly (infer V)[] } ? V :
+    string;
+
+type ConfigValue<O> =
+    O extends { default: unknown } ? OptionValue<O> :
+    O extends { required: true } ? OptionValue<O> :
+    OptionValue<O> | undefined;
+
+export type AppConfig = { readonly [K in ConfigKey]: ConfigValue<ConfigSchema[K]> };
+
+export class ConfigValidationError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid configuration:\n  - ${errors.join('\n  - ')}`);
+        this.name = 'ConfigValidationError';
+    }
+}
+
+function parseValue(option: ConfigOption, raw: string): { value?: unknown; error?: string } {
+    switch (option.type) {
+        case 'number': {
+            const value = Number(raw);
+            if (raw.trim() === '' || isNaN(value)) {
+                return { error: `must be a number, got "${raw}"` };
+            }
+            if (option.integer && !Number.isInteger(value)) {
+                return { error: `must be an integer, got ${value}` };
+            }
+            if (option.min !== undefined && value < option.min) {
+                return { error: `must be at least ${option.min}, got ${value}` };
+            }
+            if (option.max !== undefined && value > option.max) {
+                return { error: `must be at most ${option.max}, got ${value}` };
+            }
+            return { value };
+        }
+        case 'boolean': {
+            const normalized = raw.trim().toLowerCase();
+            if (['true', '1', 'yes', 'on'].includes(normalized)) return { value: true };
+            if (['false', '0', 'no', 'off'].includes(normalized)) return { value: false };
+            return { error: `must be true or false, got "${raw}"` };
+        }
+        case 'enum':
+            if (!option.values.includes(raw)) {
+                return { error: `must be one of ${option.values.join(', ')}, got "${raw}"` };
+            }
+            return { value: raw };
+        default:
+            if (option.pattern && !option.pattern.test(raw)) {
+                return { error: `has an invalid format: "${option.secret ? '********' : raw}"` };
+            }
+            return { value: raw };
+    }
+}
+
+/**
+ * Validate raw values against the schema, collecting every problem rather
+ * than stopping at the first one.
+ */
+export function parseConfig(
+    source: Record<string, string | undefined>,
+    environment: string,
+): { config: AppConfig; errors: string[] } {
+    const config: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    for (const [key, option] of Object.entries(configSchema) as [ConfigKey, ConfigOption][]) {
+        const raw = source[option.env];
+
+        if (raw === undefined || raw === '') {
+            if ('required' in option && option.required) {
+                errors.push(`${option.env} is required (${option.description})`);
+            }
+            const fallback = option.default;
+            config[key] = typeof fallback === 'function' ? fallback(environment) : fallback;
+            continue;
+        }
+
+        const { value, error } = parseValue(option, raw);
+        if (error) {
+            errors.push(`${option.env} ${error}`);
+        } else {
+            config[key] = value;
+        }
+    }
+
+    return { config: config as AppConfig, errors };
+}
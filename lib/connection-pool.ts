@@ -0,0 +1,124 @@
+import Database from 'better-sqlite3';
+import { createLogger } from './logger';
+
+const logger = createLogger('database:pool');
+
+const STATEMENT_CACHE_SIZE = 100;
+
+export interface ConnectionPoolOptions {
+    /** Opens a fully configured (keyed, WAL) connection */
+    openConnection: (options?: Database.Options) => Database.Database;
+    /** Number of read-only connections kept alongside the writer */
+    readerCount: number;
+}
+
+/**
+ * Long-lived connections for the lifetime of the process: a single writer
+ * (SQLite only allows one at a time anyway) plus a small round-robin pool of
+ * read-only connections, each with its own prepared-statement cache.
+ */
+export class ConnectionPool {
+    private writer: Database.Database | null = null;
+    private readers: Database.Database[] = [];
+    private nextReader = 0;
+    private statementCaches = new Map<Database.Database, Map<string, Database.Statement>>();
+
+    constructor(private options: ConnectionPoolOptions) {}
+
+    public isOpen(): boolean {
+        return this.writer !== null;
+    }
+
+    public getWriter(): Database.Database {
+        if (!this.writer) {
+            // The writer must exist first so the file and WAL mode are set up
+            // before any read-only connection is attempted.
+            this.writer = this.options.openConnection();
+            this.statementCaches.set(this.writer, new Map());
+        }
+        return this.writer;
+    }
+
+    public getReader(): Database.Database {
+        const writer = this.getWriter();
+
+        if (this.options.readerCount <= 0) {
+            return writer;
+        }
+
+        if (this.readers.length < this.options.readerCount) {
+            const reader = this.options.openConnection({ readonly: true, fileMustExist: true });
+            this.statementCaches.set(reader, new Map());
+            this.readers.push(reader);
+            return reader;
+        }
+
+        const reader = this.readers[this.nextReader];
+        this.nextReader = (this.nextReader + 1) % this.readers.length;
+        return reader;
+    }
+
+    /**
+     * Prepare a statement on the given connection, reusing a cached one for
+     * the same SQL text. The least recently used entry is evicted when full.
+     */
+    public prepare(db: Database.Database, sql: string): Database.Statement {
+        let cache = this.statementCaches.get(db);
+        if (!cache) {
+            cache = new Map();
+            this.statementCaches.set(db, cache);
+        }
+
+        const cached = cache.get(sql);
+        if (cached) {
+            // Re-insert to mark as most recently used
+            cache.delete(sql);
+            cache.set(sql, cached);
+            return cached;
+        }
+
+        const statement = db.prepare(sql);
+        cache.set(sql, statement);
+
+        if (cache.size > STATEMENT_CACHE_SIZE) {
+            const oldest = cache.keys().next().value;
+            if (oldest !== undefined) {
+                cache.delete(oldest);
+            }
+        }
+
+        return statement;
+    }
+
+    /**
+     * Checkpoint the WAL into the main database file and close every connection.
+     * Synchronous so it can run from a process 'exit' handler.
+     */
+    public close(): void {
+        for (const reader of this.readers) {
+            try {
+                reader.close();
+            } catch (error) {
+                logger.error('Failed to close reader connection', error);
+            }
+        }
+        this.readers = [];
+        this.nextReader = 0;
+
+        if (this.writer) {
+            try {
+                this.writer.pragma('wal_checkpoint(TRUNCATE)');
+            } catch (error) {
+                logger.error('WAL checkpoint failed during shutdown', error);
+            }
+            try {
+                this.writer.close();
+            } catch (error) {
+                logger.error('Failed to close writer connection', error);
+            }
+            this.writer = null;
+        }
+
+        this.statementCaches.clear();
+    }
+}
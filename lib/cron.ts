@@ -0,0 +1,132 @@
+// Standard five-field cron expressions ("minute hour day-of-month month
+// day-of-week"), evaluated in the server's local time. Fields accept "*",
+// numbers, ranges (1-5), lists (1,3,5) and steps (*/15, 0-30/10); day of
+// week is 0-7 with both 0 and 7 meaning Sunday. Names and @-shortcuts are
+// not supported.
+
+export interface CronSchedule {
+    expression: string;
+    matches(date: Date): boolean;
+    /** First matching minute strictly after `after`, or null if it never matches */
+    next(after: Date): Date | null;
+}
+
+export class CronParseError extends Error {
+    constructor(expression: string, reason: string) {
+        super(`Invalid cron expression "${expression}": ${reason}`);
+        this.name = 'CronParseError';
+    }
+}
+
+interface FieldSpec {
+    name: string;
+    min: number;
+    max: number;
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 },
+];
+
+const MINUTE_MS = 60 * 1000;
+// Long enough to reach the next 29 February
+const SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * MINUTE_MS;
+
+function parseNumber(expression: string, spec: FieldSpec, text: string): number {
+    if (!/^\d+$/.test(text)) {
+        throw new CronParseError(expression, `"${text}" is not a number in the ${spec.name} field`);
+    }
+    const value = Number(text);
+    if (value < spec.min || value > spec.max) {
+        throw new CronParseError(expression, `${spec.name} must be between ${spec.min} and ${spec.max}, got ${value}`);
+    }
+    return value;
+}
+
+function parseField(expression: string, spec: FieldSpec, text: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of text.split(',')) {
+        const [range, stepText, extra] = part.split('/');
+        if (extra !== undefined || range === '') {
+            throw new CronParseError(expression, `"${part}" is not valid in the ${spec.name} field`);
+        }
+
+        const step = stepText === undefined ? 1 : parseNumber(expression, { ...spec, min: 1, max: spec.max + 1 }, stepText);
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            [start, end] = [spec.min, spec.max];
+        } else if (range.includes('-')) {
+            const [from, to] = range.split('-');
+            [start, end] = [parseNumber(expression, spec, from), parseNumber(expression, spec, to)];
+            if (start > end) {
+                throw new CronParseError(expression, `range ${range} in the ${spec.name} field is backwards`);
+            }
+        } else {
+            start = parseNumber(expression, spec, range);
+            end = stepText === undefined ? start : spec.max;
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== FIELD_SPECS.length) {
+        throw new CronParseError(expression, `expected 5 fields, got ${fields.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, i) => parseField(expression, FIELD_SPECS[i], text));
+    if (daysOfWeek.has(7)) {
+        daysOfWeek.add(0);
+    }
+
+    // As in cron, when both day fields are restricted a day matching either one counts
+    const dayOfMonthRestricted = fields[2] !== '*';
+    const dayOfWeekRestricted = fields[4] !== '*';
+    const matchesDay = (date: Date) => {
+        const byMonthDay = daysOfMonth.has(date.getDate());
+        const byWeekDay = daysOfWeek.has(date.getDay());
+        return dayOfMonthRestricted && dayOfWeekRestricted ? byMonthDay || byWeekDay : byMonthDay && byWeekDay;
+    };
+
+    const matches = (date: Date) =>
+        minutes.has(date.getMinutes()) && hours.has(date.getHours()) && months.has(date.getMonth() + 1) && matchesDay(date);
+
+    const next = (after: Date) => {
+        const limit = after.getTime() + SEARCH_LIMIT_MS;
+        const date = new Date(after.getTime());
+        date.setSeconds(0, 0);
+        date.setMinutes(date.getMinutes() + 1);
+
+        // Skip whole months, days and hours that cannot match
+        while (date.getTime() <= limit) {
+            if (!months.has(date.getMonth() + 1)) {
+                date.setMonth(date.getMonth() + 1, 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!matchesDay(date)) {
+                date.setDate(date.getDate() + 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!hours.has(date.getHours())) {
+                date.setHours(date.getHours() + 1, 0, 0, 0);
+            } else if (!minutes.has(date.getMinutes())) {
+                date.setMinutes(date.getMinutes() + 1, 0, 0);
+            } else {
+                return date;
+            }
+        }
+        return null;
+    };
+
+    return { expression: fields.join(' '), matches, next };
+}
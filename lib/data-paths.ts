@@ -0,0 +1,59 @@
+import * as path from 'path';
+import * as os from 'os';
+
+const APP_DIR_NAME = 'orbis';
+
+export interface DataPaths {
+    /** Root directory for all persistent application data */
+    dataDir: string;
+    /** Environment-specific database file inside dataDir */
+    databasePath: string;
+    /** Environment-specific snapshot directory */
+    backupsDir: string;
+    logsDir: string;
+    /** Whether dataDir came from ORBIS_DATA_DIR or the platform default */
+    source: 'override' | 'platform';
+    platform: NodeJS.Platform;
+}
+
+/**
+ * Platform-appropriate per-user data directory:
+ * - Windows: %APPDATA%\orbis
+ * - macOS:   ~/Library/Application Support/orbis
+ * - Linux:   $XDG_DATA_HOME/orbis (default ~/.local/share/orbis)
+ */
+export function getPlatformDataDir(platform: NodeJS.Platform = process.platform): string {
+    const home = os.homedir();
+
+    switch (platform) {
+        case 'win32':
+            return path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), APP_DIR_NAME);
+        case 'darwin':
+            return path.join(home, 'Library', 'Application Support', APP_DIR_NAME);
+        default:
+            return path.join(process.env.XDG_DATA_HOME || path.join(home, '.local', 'share'), APP_DIR_NAME);
+    }
+}
+
+/**
+ * Production keeps the historical orbis.db name so existing installs are
+ * picked up; every other environment gets its own file so development
+ * never touches production data.
+ */
+export function getDatabaseFileName(environment: string): string {
+    return environment === 'production' ? 'orbis.db' : `orbis.${environment}.db`;
+}
+
+export function resolveDataPaths(options: { dataDirOverride?: string; environment: string }): DataPaths {
+    const { dataDirOverride: override, environment } = options;
+    const dataDir = override ? path.resolve(override) : getPlatformDataDir();
+
+    return {
+        dataDir,
+        databasePath: path.join(dataDir, getDatabaseFileName(environment)),
+        backupsDir: path.join(dataDir, 'backups', environment),
+        logsDir: path.join(dataDir, 'logs'),
+        source: override ? 'override' : 'platform',
+        platform: process.platform,
+    };
+}
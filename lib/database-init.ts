@@ -1,5 +1,11 @@
 // Database initialization service - runs on server startup (RUNTIME ONLY)
 import { DatabaseManager } from './database';
+import { backupService } from './backup.service';
+import { sessionService } from './auth/sessions';
+import { envService } from './environment.service';
+import { createLogger } from './logger';
+
+const logger = createLogger('database:init');
 
 class DatabaseInitService {
   private static instance: DatabaseInitService | null = null;
@@ -18,26 +24,26 @@ class DatabaseInitService {
 
   public async initialize(): Promise<void> {
     if (this.isInitialized) {
-      console.log('[database-init] Database already initialized');
+      logger.debug('Database already initialized');
       return;
     }
 
     // If already initializing, wait for the existing promise
     if (this.isInitializing && this.initPromise) {
-      console.log('[database-init] Database initialization in progress, waiting...');
+      logger.debug('Database initialization in progress, waiting');
       return this.initPromise;
     }
 
     // Only initialize on server-side and during runtime (not build)
     if (typeof window !== 'undefined') {
-      console.warn('[database-init] Skipping database initialization on client-side');
+      logger.warn('Skipping database initialization on client-side');
       return;
     }
 
     // Skip during build process - be more specific about when to skip
     if (process.env.NEXT_PHASE === 'phase-production-build' || 
         process.env.NEXT_PHASE === 'phase-development-build') {
-      console.log('[database-init] Skipping database initialization during build phase');
+      logger.info('Skipping database initialization during build phase');
       return;
     }
 
@@ -54,15 +60,22 @@ class DatabaseInitService {
 
   private async performInitialization(): Promise<void> {
     try {
-      console.log('[database-init] Starting database initialization...');
+      logger.info('Starting database initialization');
       
       const database = DatabaseManager.getInstance();
       await database.initializeDatabase();
+      await database.migrate();
+
+      // system_settings is the highest-precedence configuration layer
+      envService.applySettingsOverrides(await database.getSystemSettingsWithPrefix('config.'));
+
+      backupService.startSchedule();
+      sessionService.startPurgeSchedule();
       
       this.isInitialized = true;
-      console.log('[database-init] ✅ Database initialization completed successfully');
+      logger.info('Database initialization completed');
     } catch (error) {
-      console.error('[database-init] ❌ Database initialization failed:', error);
+      logger.error('Database initialization failed', error);
       throw error;
     }
   }
@@ -1,49 +1,264 @@
 import * as path from 'path';
-import * as os from 'os';
 import * as fs from 'fs';
 import Database from 'better-sqlite3';
 import { envService } from './environment.service';
+import { assertStrongKey, resolveEncryptionKey, writeKeyFile, type EncryptionKeySource } from './encryption-key';
+import { MigrationRunner, type MigrationResult, type MigrationStatus } from './migration-runner';
+import { ConnectionPool } from './connection-pool';
+import { resolveDataPaths, type DataPaths } from './data-paths';
+import { isBusyError, runTransaction, type TransactionCallback, type TransactionOptions } from './transaction';
+import { createLogger, registerSecret } from './logger';
+
+const logger = createLogger('database');
+
+export interface RekeyResult {
+    rotatedAt: string;
+    backupPath: string;
+    /** Key file rewritten with the new key, if the key came from one */
+    keyFileUpdated?: string;
+}
+
+export interface UserRecord {
+    id: number;
+    username: string;
+    email: string;
+    role: string;
+    created_at: string;
+    updated_at: string;
+    /** Set while the account is disabled; disabled accounts cannot sign in */
+    disabled_at: string | null;
+}
+
+export interface UserChanges {
+    username?: string;
+    email?: string;
+    role?: string;
+    passwordHash?: string;
+    disabled?: boolean;
+}
+
+export type UserSortField = 'username' | 'email' | 'role' | 'created_at' | 'updated_at';
+export type UserStatus = 'active' | 'disabled';
+
+export interface UserListQuery {
+    /** Matches anywhere in the username or email, case-insensitively */
+    search?: string;
+    role?: string;
+    status?: UserStatus;
+    sort?: UserSortField;
+    order?: 'asc' | 'desc';
+    limit?: number;
+    /** nextCursor of the previous page, with the same sort and order */
+    cursor?: string;
+}
+
+export interface UserPage {
+    users: UserRecord[];
+    /** Users matching the filters across all pages */
+    total: number;
+    nextCursor: string | null;
+}
+
+export const USER_SORT_FIELDS: UserSortField[] = ['username', 'email', 'role', 'created_at', 'updated_at'];
+export const DEFAULT_USER_PAGE_SIZE = 50;
+export const MAX_USER_PAGE_SIZE = 200;
+
+export class InvalidCursorError extends Error {
+    constructor() {
+        super('Invalid cursor; it must come from a previous page with the same sort and order');
+        this.name = 'InvalidCursorError';
+    }
+}
+
+// Names and addresses sort the way people read them, regardless of case.
+// The same expressions are indexed by migration 005.
+const USER_SORT_EXPRESSIONS: Record<UserSortField, string> = {
+    username: 'username COLLATE NOCASE',
+    email: 'email COLLATE NOCASE',
+    role: 'role',
+    created_at: 'created_at',
+    updated_at: 'updated_at',
+};
+
+interface UserCursor {
+    sort: UserSortField;
+    order: 'asc' | 'desc';
+    /** Sort value and id of the last row of the previous page */
+    value: string;
+    id: number;
+}
+
+function encodeUserCursor(cursor: UserCursor): string {
+    return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString('base64url');
+}
+
+function decodeUserCursor(encoded: string, sort: UserSortField, order: 'asc' | 'desc'): UserCursor {
+    try {
+        const [cursorSort, cursorOrder, value, id] = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+        if (cursorSort === sort && cursorOrder === order && typeof value === 'string' && Number.isInteger(id)) {
+            return { sort, order, value, id };
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new InvalidCursorError();
+}
+
+/** Raised instead of leaving no active administrator behind */
+export class LastAdminError extends Error {
+    constructor() {
+        super('The last active administrator cannot be demoted, disabled or deleted');
+        this.name = 'LastAdminError';
+    }
+}
+
+const USER_COLUMNS = 'id, username, email, role, created_at, updated_at, disabled_at';
+
+// The users triggers abort with this message; see migration 004
+function isLastAdminAbort(error: unknown): boolean {
+    return error instanceof Error && error.message.includes('LAST_ADMIN');
+}
+
+function quotePragmaValue(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+function applyCipherKey(db: Database.Database, key: string): void {
+    db.pragma("cipher='sqlcipher'");
+    db.pragma("legacy=4");
+    db.pragma(`key=${quotePragmaValue(key)}`);
+}
+
+function openKeyedFile(filePath: string, key: string, options: Database.Options = {}): Database.Database {
+    const db = new Database(filePath, { fileMustExist: true, ...options });
+    try {
+        applyCipherKey(db, key);
+        db.prepare('SELECT count(*) FROM sqlite_master;').get();
+        return db;
+    } catch (error) {
+        db.close();
+        throw error;
+    }
+}
+
+/**
+ * Write a consistent copy of db to destination, encrypted with the same key.
+ * VACUUM INTO runs in a single read transaction, so it is safe while the
+ * database is in use. (The backup API proper cannot be used: SQLCipher
+ * refuses to back up into a target that is not keyed the same way.)
+ */
+function vacuumInto(db: Database.Database, destination: string): void {
+    db.prepare('VACUUM INTO ?').run(destination);
+}
+
+/**
+ * Change the key of a database file that nothing else has open.
+ */
+function rekeyFile(filePath: string, oldKey: string, newKey: string): void {
+    const db = openKeyedFile(filePath, oldKey);
+    try {
+        // Rekeying is not supported in WAL mode
+        const journalMode = db.pragma('journal_mode', { simple: true }) as string;
+        db.pragma('journal_mode = DELETE');
+        db.pragma(`rekey=${quotePragmaValue(newKey)}`);
+        db.pragma(`journal_mode = ${journalMode}`);
+    } finally {
+        db.close();
+    }
+}
+
+function integrityErrors(db: Database.Database): string[] {
+    const rows = db.pragma('integrity_check') as { integrity_check: string }[];
+    return rows.map(row => row.integrity_check).filter(result => result !== 'ok');
+}
 
 export class DatabaseManager {
     private static instance: DatabaseManager;
     private static initialized: boolean = false;
+    private static shutdownHandlersRegistered: boolean = false;
     private dbPath: string;
+    private dataPaths: DataPaths;
     private encryptionKey: string;
+    private keySource: EncryptionKeySource;
+    private keyFilePath?: string;
+    private pool: ConnectionPool;
 
     private constructor() {
-        console.log('🔧 Initializing DatabaseManager...');
-
-        // Load environment-specific variables
+        // Resolve the platform data directory (or ORBIS_DATA_DIR override)
+        this.dataPaths = resolveDataPaths({
+            dataDirOverride: envService.getConfig().dataDir,
+            environment: envService.getEnvironment(),
+        });
         try {
-            this.encryptionKey = envService.getDatabaseEncryptionKey();
-            console.log('🔑 Encryption key loaded successfully');
-        } catch (error) {
-            console.error('❌ Failed to load encryption key:', error);
-            // Use default for development
-            this.encryptionKey = 'dev_encryption_key_2024_development_orbis_secure';
-            console.log('🔑 Using default encryption key for development');
-        }
-
-        // Use custom database path if provided, otherwise use default
-        try {
-            const appDataPath = path.join(os.homedir(), 'AppData', 'Roaming', 'orbis');
-            if (!fs.existsSync(appDataPath)) {
-                fs.mkdirSync(appDataPath, { recursive: true });
+            if (!fs.existsSync(this.dataPaths.dataDir)) {
+                fs.mkdirSync(this.dataPaths.dataDir, { recursive: true });
             }
-            this.dbPath = path.join(appDataPath, 'orbis.db');
+            this.dbPath = this.dataPaths.databasePath;
 
             // Validate that dbPath is properly set
             if (!this.dbPath) {
                 throw new Error('Database path could not be determined');
             }
 
-            console.log('DB PATH:', this.dbPath, typeof this.dbPath);
+            logger.info('Data directory resolved', { dataDir: this.dataPaths.dataDir, source: this.dataPaths.source });
 
         } catch (error) {
-            console.error('Error setting up database path:', error);
+            logger.error('Could not create the data directory', error);
             // Fallback to current directory
-            this.dbPath = path.join(process.cwd(), 'orbis.db');
-            console.log(`📁 Using fallback database path: ${this.dbPath}`);
+            this.dbPath = path.join(process.cwd(), path.basename(this.dataPaths.databasePath));
+            this.dataPaths = { ...this.dataPaths, databasePath: this.dbPath };
+            logger.warn('Using fallback database path', { path: this.dbPath });
+        }
+
+        // No fallback on failure: starting with the wrong key (or a public
+        // one) is worse than not starting at all.
+        const resolvedKey = resolveEncryptionKey({
+            dataDir: this.dataPaths.dataDir,
+            databasePath: this.dbPath,
+            opensWithKey: (key) => {
+                try {
+                    openKeyedFile(this.dbPath, key, { readonly: true }).close();
+                    return true;
+                } catch {
+                    return false;
+                }
+            },
+        });
+        this.encryptionKey = resolvedKey.key;
+        this.keySource = resolvedKey.source;
+        this.keyFilePath = resolvedKey.keyFilePath;
+        registerSecret(this.encryptionKey);
+        logger.info('Encryption key loaded', { source: resolvedKey.source });
+
+        this.pool = new ConnectionPool({
+            openConnection: (options) => this.openConnection(options),
+            readerCount: envService.getConfig().databaseReaderPoolSize,
+        });
+        this.registerShutdownHandlers();
+    }
+
+    /**
+     * Close the pool on process exit so the WAL is checkpointed, including
+     * the updater's process.exit(0) and Ctrl+C / service stop signals.
+     */
+    private registerShutdownHandlers(): void {
+        if (DatabaseManager.shutdownHandlersRegistered) {
+            return;
+        }
+        DatabaseManager.shutdownHandlersRegistered = true;
+
+        process.on('exit', () => this.close());
+
+        for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+            process.once(signal, () => {
+                logger.info('Closing database connections', { signal });
+                this.close();
+                // If nothing else (e.g. the Next.js server) handles the signal,
+                // our listener replaced the default behaviour, so exit ourselves.
+                if (process.listenerCount(signal) === 0) {
+                    process.exit(0);
+                }
+            });
         }
     }
 
@@ -60,62 +275,62 @@ export class DatabaseManager {
         }
 
         try {
-            console.log('🔐 Initializing SQLCipher database...');
-            const db = this.getConnection();
-
-            // Create application tables
-            console.log('📊 Creating database tables...');
-
-            db.exec(`
-                    CREATE TABLE IF NOT EXISTS users (
-                        id INTEGER PRIMARY KEY AUTOINCREMENT,
-                        username TEXT UNIQUE NOT NULL,
-                        email TEXT UNIQUE NOT NULL,
-                        password_hash TEXT NOT NULL,
-                        role TEXT DEFAULT 'user',
-                        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-                    );
-                `);
-
-            db.exec(`
-                    CREATE TABLE IF NOT EXISTS sessions (
-                        id TEXT PRIMARY KEY,
-                        user_id INTEGER NOT NULL,
-                        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                        expires_at DATETIME NOT NULL,
-                        FOREIGN KEY (user_id) REFERENCES users (id)
-                    );
-                `);
-
-            db.exec(`
-                    CREATE TABLE IF NOT EXISTS system_settings (
-                        key TEXT PRIMARY KEY,
-                        value TEXT NOT NULL,
-                        description TEXT,
-                        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-                    );
-                `);
-
-            // Insert initial system settings
-            const settingsInsert = db.prepare('INSERT OR IGNORE INTO system_settings (key, value, description) VALUES (?, ?, ?)');
-            settingsInsert.run('app_version', '1.0.0', 'Application version');
-            settingsInsert.run('encryption_type', 'SQLCipher', 'Database encryption method');
-            settingsInsert.run('database_initialized', new Date().toISOString(), 'Database initialization timestamp');
-
-            db.close();
+            logger.info('Initializing SQLCipher database');
+            this.getConnection();
 
             DatabaseManager.initialized = true;
-            console.log('✅ Database initialization completed successfully');
+            logger.info('Database initialized');
 
         } catch (error) {
-            console.error('❌ Database initialization failed:', error);
+            logger.error('Database initialization failed', error);
             throw error;
         }
     }
 
-    public getConnection() {
+    /**
+     * Bring the schema up to date by applying all pending migrations.
+     * Refuses to run if the database was migrated by a newer build.
+     */
+    public async migrate(): Promise<MigrationResult> {
+        const result = new MigrationRunner(this.getConnection()).migrate();
+        if (result.applied.length > 0) {
+            logger.info('Database schema migrated', { fromVersion: result.fromVersion, toVersion: result.toVersion });
+        } else {
+            logger.info('Database schema is up to date', { version: result.toVersion });
+        }
+        return result;
+    }
+
+    /**
+     * Revert migrations down to the given schema version.
+     */
+    public async rollbackMigrations(targetVersion: number): Promise<MigrationResult> {
+        return new MigrationRunner(this.getConnection()).rollback(targetVersion);
+    }
+
+    public async getMigrationStatus(): Promise<MigrationStatus> {
+        return new MigrationRunner(this.getConnection()).getStatus();
+    }
+
+    /**
+     * The long-lived writer connection. Do not close it - it is owned by the pool.
+     */
+    public getConnection(): Database.Database {
+        return this.pool.getWriter();
+    }
+
+    /**
+     * Close all pooled connections, checkpointing the WAL first.
+     * The next query transparently reopens the pool.
+     */
+    public close(): void {
+        if (this.pool.isOpen()) {
+            this.pool.close();
+            logger.info('Database connections closed');
+        }
+    }
+
+    private openConnection(options?: Database.Options): Database.Database {
         try {
             if (!this.dbPath || typeof this.dbPath !== 'string') {
                 throw new Error(`Invalid database path type: ${typeof this.dbPath}`);
@@ -130,42 +345,185 @@ export class DatabaseManager {
             //     fs.closeSync(fs.openSync(this.dbPath, 'a'));
             // }
 
-            console.log('📁 DB path final before open:', this.dbPath, JSON.stringify(this.dbPath));
+            logger.debug('Opening connection', { role: options?.readonly ? 'reader' : 'writer', path: this.dbPath });
 
-            const db = new Database(this.dbPath);
+            const db = new Database(this.dbPath, options);
 
-            db.pragma("cipher='sqlcipher'");
-            db.pragma("legacy=4");
-            db.pragma(`key='${this.encryptionKey}'`);
-            db.pragma('journal_mode = WAL');
+            applyCipherKey(db, this.encryptionKey);
+            if (!options?.readonly) {
+                db.pragma('journal_mode = WAL');
+            }
 
             // Test connection
             db.prepare('SELECT count(*) FROM sqlite_master;').get();
 
-            console.log('🔐 Database connection and encryption verified.');
+            logger.debug('Database connection and encryption verified');
             return db;
 
         } catch (error) {
-            console.error('❌ Failed to connect to encrypted database:', error);
+            logger.error('Failed to connect to encrypted database', error);
             throw error;
         }
     }
 
 
     public async executeQuery(query: string, params: unknown[] = []): Promise<unknown> {
-        const db = this.getConnection();
+        if (query.trim().toLowerCase().startsWith('select')) {
+            const stmt = this.pool.prepare(this.pool.getReader(), query);
+            return params.length > 0 ? stmt.all(...params) : stmt.all();
+        } else {
+            const stmt = this.pool.prepare(this.pool.getWriter(), query);
+            return params.length > 0 ? stmt.run(...params) : stmt.run();
+        }
+    }
+
+    /**
+     * Run fn atomically on the writer connection. The callback receives a
+     * Transaction handle (use tx.transaction() for nested savepoints) and
+     * must be synchronous. Retries with exponential backoff while busy.
+     */
+    public async transaction<T>(fn: TransactionCallback<T>, options: TransactionOptions = {}): Promise<T> {
+        const { mode = 'deferred', maxRetries = 5, retryDelayMs = 50 } = options;
+        const writer = this.pool.getWriter();
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return runTransaction(writer, (sql) => this.pool.prepare(writer, sql), fn, mode);
+            } catch (error) {
+                if (!isBusyError(error) || attempt >= maxRetries) {
+                    throw error;
+                }
+                const delay = retryDelayMs * 2 ** attempt + Math.floor(Math.random() * retryDelayMs);
+                logger.warn('Database busy, retrying transaction', { delayMs: delay, attempt: attempt + 1, maxRetries });
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    /**
+     * Rotate the SQLCipher key. The old key is verified by opening the file
+     * with it, and a backup (still encrypted with the old key) is written next
+     * to the database before anything is changed. If the database cannot be
+     * opened with the new key afterwards, the backup is put back.
+     */
+    public async rekey(oldKey: string, newKey: string): Promise<RekeyResult> {
+        assertStrongKey(newKey, 'New encryption key');
+        // Keys arrive from the API or CLI, so make sure neither can leak into logs
+        registerSecret(oldKey);
+        registerSecret(newKey);
+        if (oldKey === newKey) {
+            throw new Error('New encryption key must differ from the old key');
+        }
+
+        // Verify the old key against the file itself, not the configured key
+        let verified: Database.Database;
+        try {
+            verified = openKeyedFile(this.dbPath, oldKey);
+        } catch (error) {
+            throw new Error(`Old encryption key could not open the database: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const backupPath = `${this.dbPath}.pre-rekey-${timestamp}.bak`;
+        try {
+            logger.info('Backing up database before rekey', { file: backupPath });
+            vacuumInto(verified, backupPath);
+        } finally {
+            verified.close();
+        }
+
+        // Everything from here on is synchronous, so no query can reopen
+        // the pool while the file is being rewritten.
+        this.close();
+
         try {
-            const stmt = db.prepare(query);
-            if (query.trim().toLowerCase().startsWith('select')) {
-                return params.length > 0 ? stmt.all(...params) : stmt.all();
-            } else {
-                return params.length > 0 ? stmt.run(...params) : stmt.run();
+            rekeyFile(this.dbPath, oldKey, newKey);
+            openKeyedFile(this.dbPath, newKey).close();
+        } catch (error) {
+            logger.error('Rekey failed, restoring backup', error);
+            this.replaceDatabaseFile(backupPath);
+            this.encryptionKey = oldKey;
+            throw error;
+        }
+
+        this.encryptionKey = newKey;
+
+        // Keep a key file in step; environment-provided keys must be updated by hand
+        let keyFileUpdated: string | undefined;
+        if (this.keyFilePath && (this.keySource === 'key-file' || this.keySource === 'generated')) {
+            writeKeyFile(this.keyFilePath, newKey);
+            keyFileUpdated = this.keyFilePath;
+        }
+
+        const rotatedAt = new Date().toISOString();
+        await this.setSystemSetting('encryption_key_rotated_at', rotatedAt, 'Last database encryption key rotation');
+        logger.info('Database encryption key rotated');
+
+        return { rotatedAt, backupPath, keyFileUpdated };
+    }
+
+    /**
+     * Write an online snapshot of the database to destination. It is
+     * encrypted with the database key, or re-keyed to snapshotKey if given.
+     */
+    public snapshotTo(destination: string, snapshotKey?: string): void {
+        vacuumInto(this.getConnection(), destination);
+
+        if (snapshotKey && snapshotKey !== this.encryptionKey) {
+            rekeyFile(destination, this.encryptionKey, snapshotKey);
+        }
+    }
+
+    /**
+     * Open a snapshot file read-only and run an integrity check on it.
+     * Returns the schema version recorded in the snapshot.
+     */
+    public verifySnapshot(filePath: string, snapshotKey?: string): { schemaVersion: number } {
+        const db = openKeyedFile(filePath, snapshotKey || this.encryptionKey, { readonly: true });
+        try {
+            const errors = integrityErrors(db);
+            if (errors.length > 0) {
+                throw new Error(`Integrity check failed: ${errors.slice(0, 5).join('; ')}`);
             }
+            return { schemaVersion: new MigrationRunner(db).getCurrentVersion() };
         } finally {
             db.close();
         }
     }
 
+    /**
+     * Replace the live database with a verified snapshot. The snapshot is
+     * staged and re-keyed to the database key before the swap, and the
+     * result is integrity-checked once reopened.
+     */
+    public restoreFrom(snapshotPath: string, snapshotKey?: string): void {
+        this.verifySnapshot(snapshotPath, snapshotKey);
+
+        const stagedPath = `${this.dbPath}.restoring`;
+        fs.copyFileSync(snapshotPath, stagedPath);
+        try {
+            if (snapshotKey && snapshotKey !== this.encryptionKey) {
+                rekeyFile(stagedPath, snapshotKey, this.encryptionKey);
+            }
+            this.close();
+            this.replaceDatabaseFile(stagedPath);
+        } finally {
+            fs.rmSync(stagedPath, { force: true });
+        }
+
+        const errors = integrityErrors(this.getConnection());
+        if (errors.length > 0) {
+            throw new Error(`Restored database failed integrity check: ${errors.slice(0, 5).join('; ')}`);
+        }
+    }
+
+    private replaceDatabaseFile(source: string): void {
+        fs.copyFileSync(source, this.dbPath);
+        for (const suffix of ['-wal', '-shm']) {
+            fs.rmSync(`${this.dbPath}${suffix}`, { force: true });
+        }
+    }
+
     public async getUser(username: string): Promise<Record<string, unknown> | null> {
         const result = await this.executeQuery(
             'SELECT * FROM users WHERE username = ?',
@@ -174,10 +532,116 @@ export class DatabaseManager {
         return result.length > 0 ? result[0] : null;
     }
 
-    public async getAllUsers(): Promise<Record<string, unknown>[]> {
-        return await this.executeQuery(
-            'SELECT id, username, email, role, created_at, updated_at FROM users ORDER BY created_at DESC'
-        ) as Record<string, unknown>[];
+    /**
+     * One page of users. Pages are keyed on the sort value and id of the
+     * last row rather than an offset, so they stay stable while accounts are
+     * added and cost the same however deep the listing goes.
+     */
+    public async listUsers(query: UserListQuery = {}): Promise<UserPage> {
+        const sort = query.sort ?? 'created_at';
+        const order = query.order ?? 'desc';
+        const limit = Math.min(Math.max(query.limit ?? DEFAULT_USER_PAGE_SIZE, 1), MAX_USER_PAGE_SIZE);
+        const sortExpression = USER_SORT_EXPRESSIONS[sort];
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+
+        if (query.search) {
+            const pattern = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+            conditions.push("(username LIKE ? ESCAPE '\\' OR email LIKE ? ESCAPE '\\')");
+            params.push(pattern, pattern);
+        }
+        if (query.role) {
+            conditions.push('role = ?');
+            params.push(query.role);
+        }
+        if (query.status) {
+            conditions.push(query.status === 'active' ? 'disabled_at IS NULL' : 'disabled_at IS NOT NULL');
+        }
+
+        const filter = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const [{ total }] = await this.executeQuery(`SELECT COUNT(*) AS total FROM users ${filter}`, params) as { total: number }[];
+
+        const pageConditions = [...conditions];
+        const pageParams = [...params];
+        if (query.cursor) {
+            const cursor = decodeUserCursor(query.cursor, sort, order);
+            const comparison = order === 'asc' ? '>' : '<';
+            pageConditions.push(`(${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND id ${comparison} ?))`);
+            pageParams.push(cursor.value, cursor.value, cursor.id);
+        }
+
+        const where = pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : '';
+        const direction = order.toUpperCase();
+        const rows = await this.executeQuery(
+            `SELECT ${USER_COLUMNS} FROM users ${where} ORDER BY ${sortExpression} ${direction}, id ${direction} LIMIT ?`,
+            [...pageParams, limit + 1]
+        ) as UserRecord[];
+
+        const users = rows.slice(0, limit);
+        const last = users[users.length - 1];
+        return {
+            users,
+            total,
+            nextCursor: rows.length > limit ? encodeUserCursor({ sort, order, value: String(last[sort]), id: last.id }) : null,
+        };
+    }
+
+    public async getUserById(id: number): Promise<UserRecord | null> {
+        const result = await this.executeQuery(
+            `SELECT ${USER_COLUMNS} FROM users WHERE id = ?`,
+            [id]
+        ) as UserRecord[];
+        return result.length > 0 ? result[0] : null;
+    }
+
+    /**
+     * Apply changes to a user and return the updated record, or null if there
+     * is no such user. Throws LastAdminError rather than demote or disable
+     * the last active administrator.
+     */
+    public async updateUser(id: number, changes: UserChanges): Promise<UserRecord | null> {
+        const assignments: string[] = [];
+        const params: unknown[] = [];
+
+        if (changes.username !== undefined) {
+            assignments.push('username = ?');
+            params.push(changes.username);
+        }
+        if (changes.email !== undefined) {
+            assignments.push('email = ?');
+            params.push(changes.email);
+        }
+        if (changes.role !== undefined) {
+            assignments.push('role = ?');
+            params.push(changes.role);
+        }
+        if (changes.passwordHash !== undefined) {
+            assignments.push('password_hash = ?');
+            params.push(changes.passwordHash);
+        }
+        if (changes.disabled !== undefined) {
+            // Keep the original time when disabling an account that already is
+            assignments.push(changes.disabled ? "disabled_at = COALESCE(disabled_at, datetime('now'))" : 'disabled_at = NULL');
+        }
+
+        try {
+            return await this.transaction((tx) => {
+                if (assignments.length > 0) {
+                    tx.run(`UPDATE users SET ${assignments.join(', ')}, updated_at = datetime('now') WHERE id = ?`, [...params, id]);
+                }
+                return tx.get<UserRecord>(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`, [id]) ?? null;
+            }, { mode: 'immediate' });
+        } catch (error) {
+            if (isLastAdminAbort(error)) {
+                throw new LastAdminError();
+            }
+            throw error;
+        }
+    }
+
+    /** Soft delete: the row stays so everything that refers to it does too */
+    public async disableUser(id: number): Promise<UserRecord | null> {
+        return this.updateUser(id, { disabled: true });
     }
 
     public async createUser(username: string, email: string, passwordHash: string, role: string = 'user'): Promise<{ lastInsertRowid: number; changes: number }> {
@@ -195,9 +659,21 @@ export class DatabaseManager {
         return result.length > 0 ? (result[0].value as string) : null;
     }
 
+    public async getSystemSettingsWithPrefix(prefix: string): Promise<Record<string, string>> {
+        const rows = await this.executeQuery(
+            "SELECT key, value FROM system_settings WHERE substr(key, 1, length(?)) = ?",
+            [prefix, prefix]
+        ) as { key: string; value: string }[];
+        return Object.fromEntries(rows.map(row => [row.key, row.value]));
+    }
+
+    public async deleteSystemSetting(key: string): Promise<void> {
+        await this.executeQuery('DELETE FROM system_settings WHERE key = ?', [key]);
+    }
+
     public async setSystemSetting(key: string, value: string, description?: string): Promise<void> {
         await this.executeQuery(
-            'INSERT OR REPLACE INTO system_settings (key, value, description, updated_at) VALUES (?, ?, ?, datetime("now"))',
+            "INSERT OR REPLACE INTO system_settings (key, value, description, updated_at) VALUES (?, ?, ?, datetime('now'))",
             [key, value, description || '']
         );
     }
@@ -205,4 +681,12 @@ export class DatabaseManager {
     public getDbPath(): string {
         return this.dbPath;
     }
+
+    public getEncryptionKeySource(): EncryptionKeySource {
+        return this.keySource;
+    }
+
+    public getDataPaths(): DataPaths {
+        return this.dataPaths;
+    }
 }
\ No newline at end of file
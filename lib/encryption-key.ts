@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import { envService } from './environment.service';
+import { createLogger } from './logger';
+
+const logger = createLogger('database:key');
+
+/** Publicly known key - only ever acceptable in development */
+export const DEVELOPMENT_FALLBACK_KEY = 'dev_encryption_key_2024_development_orbis_secure';
+
+const MIN_KEY_LENGTH = 32;
+const MIN_DISTINCT_CHARACTERS = 10;
+
+export type EncryptionKeySource = 'environment' | 'key-file' | 'stdin' | 'generated' | 'development-default';
+
+export interface ResolvedEncryptionKey {
+    key: string;
+    source: EncryptionKeySource;
+    /** Key file the key was read from or written to, if any */
+    keyFilePath?: string;
+}
+
+export class EncryptionKeyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EncryptionKeyError';
+    }
+}
+
+/**
+ * Returns a list of reasons the key is unacceptable (empty if it is fine).
+ */
+export function assessKeyStrength(key: string): string[] {
+    const problems: string[] = [];
+
+    if (key === DEVELOPMENT_FALLBACK_KEY) {
+        problems.push('it is the publicly known development key');
+    }
+    if (key.length < MIN_KEY_LENGTH) {
+        problems.push(`it is shorter than ${MIN_KEY_LENGTH} characters`);
+    }
+    if (new Set(key).size < MIN_DISTINCT_CHARACTERS) {
+        problems.push(`it has fewer than ${MIN_DISTINCT_CHARACTERS} distinct characters`);
+    }
+    if (key.includes('\n') || key.includes('\0')) {
+        problems.push('it contains line breaks or NUL characters');
+    }
+
+    return problems;
+}
+
+export function assertStrongKey(key: string, label: string = 'Encryption key'): void {
+    const problems = assessKeyStrength(key);
+    if (problems.length > 0) {
+        throw new EncryptionKeyError(`${label} is too weak: ${problems.join(', ')}`);
+    }
+}
+
+export function getDefaultKeyFilePath(dataDir: string, environment: string): string {
+    return path.join(dataDir, environment === 'production' ? 'orbis.key' : `orbis.${environment}.key`);
+}
+
+function readKeyFile(filePath: string): string {
+    if (process.platform !== 'win32') {
+        const mode = fs.statSync(filePath).mode;
+        if (mode & 0o077) {
+            throw new EncryptionKeyError(`Key file ${filePath} is accessible by other users (mode ${(mode & 0o777).toString(8)}); run: chmod 600 "${filePath}"`);
+        }
+    }
+    return fs.readFileSync(filePath, 'utf8').trim();
+}
+
+/**
+ * Write the key so only the current user (plus SYSTEM and Administrators
+ * on Windows, where the service runs as SYSTEM) can read it.
+ */
+export function writeKeyFile(filePath: string, key: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, `${key}\n`, { mode: 0o600 });
+    fs.renameSync(tempPath, filePath);
+
+    if (process.platform === 'win32') {
+        try {
+            execFileSync('icacls', [
+                filePath,
+                '/inheritance:r',
+                '/grant:r', `${os.userInfo().username}:F`,
+                '/grant:r', '*S-1-5-18:F',      // SYSTEM
+                '/grant:r', '*S-1-5-32-544:F',  // Administrators
+            ], { stdio: 'ignore' });
+        } catch (error) {
+            logger.warn('Could not restrict key file permissions', { file: filePath, error });
+        }
+    } else {
+        fs.chmodSync(filePath, 0o600);
+    }
+}
+
+/**
+ * Work out the database key. In order:
+ * 1. DATABASE_ENCRYPTION_KEY
+ * 2. DATABASE_ENCRYPTION_KEY_FILE (a path, or "-" to read it from stdin)
+ * 3. The default key file in the data directory
+ * 4. First run outside development: generate a random key into that file
+ * 5. Development only: the well-known development key
+ *
+ * Outside development a weak key, or an existing database with no key,
+ * is an error - we never fall back to a public key for customer data.
+ * Installs from before that rule may have been encrypted with the
+ * development key; opensWithKey lets the error say so and point at
+ * `npm run db:rekey -- --from-development-key`, which moves them to a
+ * generated key file.
+ */
+export function resolveEncryptionKey(options: {
+    dataDir: string;
+    databasePath: string;
+    opensWithKey?: (key: string) => boolean;
+}): ResolvedEncryptionKey {
+    const environment = envService.getEnvironment();
+    const isDevelopment = envService.isDevelopment();
+    const defaultKeyFile = getDefaultKeyFilePath(options.dataDir, environment);
+
+    const resolved = ((): ResolvedEncryptionKey | null => {
+        const envKey = envService.getConfig().databaseEncryptionKey;
+        if (envKey) {
+            return { key: envKey, source: 'environment' };
+        }
+
+        const keyFile = envService.getConfig().databaseEncryptionKeyFile;
+        if (keyFile === '-') {
+            return { key: fs.readFileSync(0, 'utf8').trim(), source: 'stdin' };
+        }
+        if (keyFile) {
+            if (!fs.existsSync(keyFile)) {
+                throw new EncryptionKeyError(`DATABASE_ENCRYPTION_KEY_FILE points to a missing file: ${keyFile}`);
+            }
+            return { key: readKeyFile(keyFile), source: 'key-file', keyFilePath: path.resolve(keyFile) };
+        }
+
+        if (fs.existsSync(defaultKeyFile)) {
+            return { key: readKeyFile(defaultKeyFile), source: 'key-file', keyFilePath: defaultKeyFile };
+        }
+
+        return null;
+    })();
+
+    if (resolved) {
+        if (!isDevelopment) {
+            assertStrongKey(resolved.key, `Database encryption key (from ${resolved.source})`);
+        }
+        return resolved;
+    }
+
+    if (isDevelopment) {
+        logger.warn('No database encryption key configured, using the development key');
+        return { key: DEVELOPMENT_FALLBACK_KEY, source: 'development-default' };
+    }
+
+    if (fs.existsSync(options.databasePath)) {
+        if (options.opensWithKey?.(DEVELOPMENT_FALLBACK_KEY)) {
+            throw new EncryptionKeyError(
+                `Database ${options.databasePath} is encrypted with the publicly known development key. ` +
+                'Stop the server and run "npm run db:rekey -- --from-development-key" to re-encrypt it ' +
+                `with a new key, which is written to ${defaultKeyFile}. Back that file up afterwards.`
+            );
+        }
+        throw new EncryptionKeyError(
+            `Database ${options.databasePath} exists but no encryption key is configured. ` +
+            `Set DATABASE_ENCRYPTION_KEY or DATABASE_ENCRYPTION_KEY_FILE, or restore ${defaultKeyFile}.`
+        );
+    }
+
+    const key = crypto.randomBytes(32).toString('hex');
+    writeKeyFile(defaultKeyFile, key);
+    logger.warn('Generated a new database encryption key; back this file up, the database cannot be opened without it', { file: defaultKeyFile });
+
+    return { key, source: 'generated', keyFilePath: defaultKeyFile };
+}
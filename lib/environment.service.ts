@@ -1,13 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import * as dotenv from 'dotenv';
+import {
+    configSchema,
+    ConfigValidationError,
+    parseConfig,
+    type AppConfig,
+    type ConfigKey,
+    type ConfigOption,
+} from './config.schema';
+import { getPlatformDataDir, resolveDataPaths } from './data-paths';
+import { configureLogging, createLogger, registerSecret } from './logger';
+
+const logger = createLogger('config');
+
+/**
+ * Configuration layers, lowest precedence first. A value from a later
+ * layer overrides the same key from every earlier one:
+ *
+ * 1. default          - built-in defaults from the config schema
+ * 2. config-file      - config.json in the data directory
+ * 3. env-file         - .env, then .env.<environment>
+ * 4. env-local        - .env.local (machine-specific, never shipped)
+ * 5. process          - the real process environment
+ * 6. system-settings  - "config.<ENV_NAME>" rows in system_settings
+ *                       (non-secret, runtime-reloadable values only)
+ *
+ * .env files are looked up in the working directory and, for the
+ * standalone build, in the application folder next to run.bat.
+ */
+export type ConfigLayer = 'default' | 'config-file' | 'env-file' | 'env-local' | 'process' | 'system-settings';
+
+export interface ConfigSource {
+    layer: ConfigLayer;
+    /** File the value was read from, for file-based layers */
+    location?: string;
+}
+
+interface LayerValues {
+    source: ConfigSource;
+    values: Record<string, string>;
+}
+
+export interface RedactedConfigEntry {
+    key: ConfigKey;
+    env: string;
+    value: unknown;
+    source: ConfigSource;
+    /** Lower-precedence layers that also set this key */
+    shadowed: { source: ConfigSource; value: unknown }[];
+    secret: boolean;
+    reloadable: boolean;
+    description: string;
+}
+
+export interface ConfigChange {
+    key: ConfigKey;
+    env: string;
+    previous: unknown;
+    current: unknown;
+}
+
+export type ConfigChangeListener = (changes: ConfigChange[]) => void;
+
+const CONFIG_FILE_NAME = 'config.json';
+const SETTINGS_PREFIX = 'config.';
+const RELOAD_DEBOUNCE_MS = 250;
 
 export class EnvironmentService {
     private static instance: EnvironmentService;
     private static loaded: boolean = false;
     private environment: string;
+    private config!: AppConfig;
+    private sources = {} as Record<ConfigKey, ConfigSource>;
+    private layers: LayerValues[] = [];
+    // The layers each key's current value was resolved from. A reload that
+    // leaves a key at its old value (secret or restart-only) keeps its
+    // entry, so the redacted dump explains the value actually in effect.
+    private effectiveLayers = {} as Record<ConfigKey, LayerValues[]>;
+    private settingsOverrides: Record<string, string> = {};
+    private readonly initialProcessEnv: Record<string, string | undefined>;
+    private listeners = new Set<ConfigChangeListener>();
+    private watchers: fs.FSWatcher[] = [];
+    private reloadTimer: NodeJS.Timeout | null = null;
 
     private constructor() {
         this.environment = this.detectEnvironment();
+        // Snapshot before .env values are exported, so the process layer
+        // only ever contains what the real environment provided
+        this.initialProcessEnv = { ...process.env };
         this.loadEnvironmentConfig();
+        this.watchConfigFiles();
     }
 
     public static getInstance(): EnvironmentService {
@@ -26,92 +109,370 @@ export class EnvironmentService {
             return;
         }
 
-        const envFile = this.getEnvironmentFilePath();
-        
-        // Load environment variables from the appropriate file
-        const result = dotenv.config({ path: envFile });
-        
-        // If the specific env file doesn't exist, try to load from .env as fallback
-        if (result.error) {
-            console.warn(`⚠️  Could not load ${envFile}, trying .env as fallback`);
-            const fallbackResult = dotenv.config({ path: '.env' });
-            
-            if (fallbackResult.error) {
-                console.warn(`⚠️  Could not load .env fallback file either`);
-            }
+        const resolved = this.resolveLayers();
+        if (resolved.errors.length > 0) {
+            throw new ConfigValidationError(resolved.errors);
+        }
+
+        this.config = resolved.config;
+        this.sources = resolved.sources;
+        this.layers = resolved.layers;
+        for (const key of Object.keys(configSchema) as ConfigKey[]) {
+            this.effectiveLayers[key] = resolved.layers;
         }
-        
-        console.log(`🔧 Environment: ${this.environment}, Config file: ${envFile}`);
+        this.exportEnvFiles();
+        this.applyLoggingConfig();
+
+        const files = this.layers
+            .filter(layer => layer.source.location)
+            .map(layer => layer.source.location);
+        logger.info('Configuration loaded', { environment: this.environment, files });
         EnvironmentService.loaded = true;
     }
 
-    private getEnvironmentFilePath(): string {
-        return this.environment === 'production' ? '.env.production' : '.env.development';
+    /**
+     * Directories searched for .env files. The standalone server runs from
+     * .next/standalone, so the application folder two levels up (where
+     * run.bat and the operator's .env files live) is searched as well and
+     * takes precedence. Once updates are installed side by side that folder
+     * is versions/<version>, so the install root the supervisor passes down
+     * comes last.
+     */
+    private getEnvFileDirectories(): string[] {
+        const cwd = process.cwd();
+        const directories = [cwd];
+
+        if (path.basename(cwd) === 'standalone' && path.basename(path.dirname(cwd)) === '.next') {
+            directories.push(path.resolve(cwd, '..', '..'));
+        }
+
+        const installRoot = process.env.ORBIS_INSTALL_ROOT && path.resolve(process.env.ORBIS_INSTALL_ROOT);
+        if (installRoot && !directories.includes(installRoot)) {
+            directories.push(installRoot);
+        }
+
+        return directories;
+    }
+
+    private readEnvFile(filePath: string, layer: ConfigLayer): LayerValues | null {
+        if (!fs.existsSync(filePath)) {
+            return null;
+        }
+        try {
+            return { source: { layer, location: filePath }, values: dotenv.parse(fs.readFileSync(filePath)) };
+        } catch (error) {
+            logger.warn('Could not read env file', { file: filePath, error });
+            return null;
+        }
+    }
+
+    private readConfigFile(dataDir: string): LayerValues | null {
+        const filePath = path.join(dataDir, CONFIG_FILE_NAME);
+        if (!fs.existsSync(filePath)) {
+            return null;
+        }
+        try {
+            const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, unknown>;
+            const values: Record<string, string> = {};
+            for (const [key, value] of Object.entries(parsed)) {
+                if (value !== null && value !== undefined) {
+                    values[key] = String(value);
+                }
+            }
+            return { source: { layer: 'config-file', location: filePath }, values };
+        } catch (error) {
+            logger.warn('Could not read config file', { file: filePath, error });
+            return null;
+        }
+    }
+
+    private getConfigFilePaths(): string[] {
+        const dataDir = this.resolveDataDir([...this.layers]);
+        const envFiles = this.getEnvFileDirectories().flatMap(dir => [
+            path.join(dir, '.env'),
+            path.join(dir, `.env.${this.environment}`),
+            path.join(dir, '.env.local'),
+        ]);
+        return [path.join(dataDir, CONFIG_FILE_NAME), ...envFiles];
+    }
+
+    private resolveDataDir(layers: LayerValues[]): string {
+        const override = [...layers].reverse().find(layer => layer.values.ORBIS_DATA_DIR)?.values.ORBIS_DATA_DIR;
+        return override ? path.resolve(override) : getPlatformDataDir();
+    }
+
+    /**
+     * Read every layer and merge them in precedence order.
+     */
+    private resolveLayers(): { config: AppConfig; errors: string[]; sources: Record<ConfigKey, ConfigSource>; layers: LayerValues[] } {
+        const envFileLayers: LayerValues[] = [];
+        for (const dir of this.getEnvFileDirectories()) {
+            for (const [file, layer] of [['.env', 'env-file'], [`.env.${this.environment}`, 'env-file'], ['.env.local', 'env-local']] as const) {
+                const values = this.readEnvFile(path.join(dir, file), layer);
+                if (values) {
+                    envFileLayers.push(values);
+                }
+            }
+        }
+        // Directory order is kept within a layer, but env-local always wins over env-file
+        envFileLayers.sort((a, b) => Number(a.source.layer === 'env-local') - Number(b.source.layer === 'env-local'));
+
+        const processLayer: LayerValues = { source: { layer: 'process' }, values: {} };
+        for (const [key, value] of Object.entries(this.initialProcessEnv)) {
+            if (value !== undefined) {
+                processLayer.values[key] = value;
+            }
+        }
+
+        // The config file lives in the data directory, which may itself be
+        // overridden by an .env file or the process environment
+        const configFileLayer = this.readConfigFile(this.resolveDataDir([...envFileLayers, processLayer]));
+
+        const settingsLayer: LayerValues = { source: { layer: 'system-settings' }, values: this.settingsOverrides };
+
+        const layers = [
+            ...(configFileLayer ? [configFileLayer] : []),
+            ...envFileLayers,
+            processLayer,
+            settingsLayer,
+        ];
+
+        const merged: Record<string, string> = {};
+        const sources = {} as Record<ConfigKey, ConfigSource>;
+        for (const key of Object.keys(configSchema) as ConfigKey[]) {
+            const env = configSchema[key].env;
+            sources[key] = { layer: 'default' };
+            for (const layer of layers) {
+                if (layer.values[env] !== undefined && layer.values[env] !== '') {
+                    merged[env] = layer.values[env];
+                    sources[key] = layer.source;
+                }
+            }
+        }
+
+        const { config, errors } = parseConfig(merged, this.environment);
+        return { config, errors, sources, layers };
+    }
+
+    /**
+     * Export .env file values to process.env like dotenv does, without
+     * overriding the real environment, so non-schema variables still work.
+     */
+    private exportEnvFiles(): void {
+        for (const layer of this.layers) {
+            if (layer.source.layer !== 'env-file' && layer.source.layer !== 'env-local') {
+                continue;
+            }
+            for (const [key, value] of Object.entries(layer.values)) {
+                if (this.initialProcessEnv[key] === undefined) {
+                    process.env[key] = value;
+                }
+            }
+        }
     }
 
     /**
-     * Get environment variable value
-     * @param key Environment variable key
-     * @param defaultValue Default value if not found
-     * @returns Environment variable value or default
+     * Push the logging settings to the logger and register secret values
+     * so they are masked in every log line.
      */
-    public get(key: string, defaultValue?: string): string {
-        const value = process.env[key];
-        if (value === undefined) {
-            if (defaultValue !== undefined) {
-                return defaultValue;
+    private applyLoggingConfig(): void {
+        for (const key of Object.keys(configSchema) as ConfigKey[]) {
+            const option: ConfigOption = configSchema[key];
+            if (option.secret) {
+                registerSecret(this.config[key] as string | undefined);
             }
-            throw new Error(`Environment variable '${key}' is required but not found`);
         }
-        return value;
+
+        configureLogging({
+            level: this.config.logLevel,
+            format: this.config.logFormat,
+            logDir: this.config.logToFile ? resolveDataPaths({ dataDirOverride: this.config.dataDir, environment: this.environment }).logsDir : undefined,
+            maxFileSizeBytes: this.config.logMaxFileSizeMb * 1024 * 1024,
+            maxFiles: this.config.logMaxFiles,
+        });
     }
 
     /**
-     * Get environment variable value as boolean
-     * @param key Environment variable key
-     * @param defaultValue Default value if not found
-     * @returns Boolean value
+     * Watch the config file and .env files and reload on change.
      */
-    public getBoolean(key: string, defaultValue?: boolean): boolean {
-        const value = process.env[key];
-        if (value === undefined) {
-            if (defaultValue !== undefined) {
-                return defaultValue;
+    private watchConfigFiles(): void {
+        if (process.env.NEXT_PHASE === 'phase-production-build') {
+            return;
+        }
+
+        const filesByDir = new Map<string, Set<string>>();
+        for (const filePath of this.getConfigFilePaths()) {
+            const dir = path.dirname(filePath);
+            if (!filesByDir.has(dir)) {
+                filesByDir.set(dir, new Set());
+            }
+            filesByDir.get(dir)!.add(path.basename(filePath));
+        }
+
+        for (const [dir, files] of filesByDir) {
+            if (!fs.existsSync(dir)) {
+                continue;
+            }
+            try {
+                const watcher = fs.watch(dir, (_event, filename) => {
+                    if (filename && files.has(filename.toString())) {
+                        this.scheduleReload();
+                    }
+                });
+                watcher.unref();
+                this.watchers.push(watcher);
+            } catch (error) {
+                logger.warn('Could not watch directory for configuration changes', { dir, error });
             }
-            throw new Error(`Environment variable '${key}' is required but not found`);
         }
-        return value.toLowerCase() === 'true' || value === '1';
+    }
+
+    private scheduleReload(): void {
+        if (this.reloadTimer) {
+            clearTimeout(this.reloadTimer);
+        }
+        this.reloadTimer = setTimeout(() => {
+            this.reloadTimer = null;
+            this.reload();
+        }, RELOAD_DEBOUNCE_MS);
+        this.reloadTimer.unref();
     }
 
     /**
-     * Get environment variable value as number
-     * @param key Environment variable key
-     * @param defaultValue Default value if not found
-     * @returns Number value
+     * Re-read all layers and apply changed values. Secrets and values that
+     * need a restart keep their current value; an invalid result is
+     * rejected as a whole and the current configuration stays in place.
      */
-    public getNumber(key: string, defaultValue?: number): number {
-        const value = process.env[key];
-        if (value === undefined) {
-            if (defaultValue !== undefined) {
-                return defaultValue;
+    public reload(): ConfigChange[] {
+        const resolved = this.resolveLayers();
+        if (resolved.errors.length > 0) {
+            logger.error('Configuration reload rejected', { errors: resolved.errors });
+            return [];
+        }
+
+        const next: Record<string, unknown> = { ...this.config };
+        const changes: ConfigChange[] = [];
+
+        for (const key of Object.keys(configSchema) as ConfigKey[]) {
+            const option: ConfigOption = configSchema[key];
+            const previous = this.config[key];
+            const current = resolved.config[key];
+            if (previous !== current && (option.secret || option.restartRequired)) {
+                logger.warn(`${option.env} changed; restart the application to apply it`);
+                continue;
+            }
+            // Also for unchanged values, which may now come from another layer
+            this.sources[key] = resolved.sources[key];
+            this.effectiveLayers[key] = resolved.layers;
+            if (previous !== current) {
+                next[key] = current;
+                changes.push({ key, env: option.env, previous, current });
+            }
+        }
+
+        this.config = next as AppConfig;
+        this.layers = resolved.layers;
+
+        if (changes.length > 0) {
+            this.applyLoggingConfig();
+            logger.info('Configuration reloaded', { changed: changes.map(change => change.env) });
+            for (const listener of this.listeners) {
+                try {
+                    listener(changes);
+                } catch (error) {
+                    logger.error('Configuration change listener failed', error);
+                }
             }
-            throw new Error(`Environment variable '${key}' is required but not found`);
         }
-        const numValue = Number(value);
-        if (isNaN(numValue)) {
-            throw new Error(`Environment variable '${key}' must be a valid number, got: ${value}`);
+
+        return changes;
+    }
+
+    /**
+     * Subscribe to runtime configuration changes. Returns an unsubscribe function.
+     */
+    public onChange(listener: ConfigChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Whether a key may be overridden from system_settings at runtime
+     */
+    public isOverridable(key: ConfigKey): boolean {
+        const option: ConfigOption = configSchema[key];
+        return !option.secret && !option.restartRequired;
+    }
+
+    /**
+     * Replace the system_settings layer with "config.<ENV_NAME>" rows read
+     * from the database, then reload.
+     */
+    public applySettingsOverrides(settings: Record<string, string>): ConfigChange[] {
+        const overrides: Record<string, string> = {};
+
+        for (const [settingKey, value] of Object.entries(settings)) {
+            if (!settingKey.startsWith(SETTINGS_PREFIX)) {
+                continue;
+            }
+            const env = settingKey.slice(SETTINGS_PREFIX.length);
+            const key = (Object.keys(configSchema) as ConfigKey[]).find(k => configSchema[k].env === env);
+            if (!key) {
+                logger.warn('Ignoring system setting: unknown configuration key', { setting: settingKey });
+                continue;
+            }
+            if (!this.isOverridable(key)) {
+                logger.warn('Ignoring system setting: key cannot be overridden at runtime', { setting: settingKey });
+                continue;
+            }
+            overrides[env] = value;
         }
-        return numValue;
+
+        this.settingsOverrides = overrides;
+        return this.reload();
+    }
+
+    public static getSettingKey(env: string): string {
+        return `${SETTINGS_PREFIX}${env}`;
     }
 
     /**
-     * Get optional environment variable value
-     * @param key Environment variable key
-     * @param defaultValue Default value if not found
-     * @returns Environment variable value or default
+     * Get the validated, typed application configuration
      */
-    public getOptional(key: string, defaultValue: string = ''): string {
-        return process.env[key] || defaultValue;
+    public getConfig(): AppConfig {
+        return this.config;
+    }
+
+    /**
+     * Get the effective configuration with secrets masked, explaining which
+     * layer each value came from and which lower layers it overrides
+     */
+    public getRedactedConfig(): RedactedConfigEntry[] {
+        return (Object.keys(configSchema) as ConfigKey[]).map((key) => {
+            const option: ConfigOption = configSchema[key];
+            const redact = (value: unknown) => option.secret && value !== undefined ? '********' : value;
+            const source = this.sources[key];
+
+            const setters = this.effectiveLayers[key].filter(layer => layer.values[option.env] !== undefined && layer.values[option.env] !== '');
+            const winner = setters.findIndex(layer => layer.source === source);
+            const shadowed = setters
+                .slice(0, winner === -1 ? setters.length : winner)
+                .reverse()
+                .map(layer => ({ source: layer.source, value: redact(layer.values[option.env]) }));
+
+            return {
+                key,
+                env: option.env,
+                value: redact(this.config[key]),
+                source,
+                shadowed,
+                secret: !!option.secret,
+                reloadable: this.isOverridable(key),
+                description: option.description,
+            };
+        });
     }
 
     /**
@@ -142,41 +503,25 @@ export class EnvironmentService {
         return this.environment;
     }
 
-    /**
-     * Get database encryption key
-     */
-    public getDatabaseEncryptionKey(): string {
-        try {
-            return this.get('DATABASE_ENCRYPTION_KEY');
-        } catch (error) {
-            // If not found and in development, provide a default
-            if (this.environment === 'development') {
-                console.warn('⚠️  DATABASE_ENCRYPTION_KEY not found, using default for development');
-                return 'dev_encryption_key_2024_development_orbis_secure';
-            }
-            throw error;
-        }
-    }
-
     /**
      * Get application port
      */
     public getPort(): number {
-        return this.getNumber('PORT', 3000);
+        return this.config.port;
     }
 
     /**
      * Get application host
      */
     public getHost(): string {
-        return this.getOptional('HOST', 'localhost');
+        return this.config.host;
     }
 
     /**
      * Get log level
      */
-    public getLogLevel(): string {
-        return this.getOptional('LOG_LEVEL', this.isDevelopment() ? 'debug' : 'info');
+    public getLogLevel(): AppConfig['logLevel'] {
+        return this.config.logLevel;
     }
 }
 
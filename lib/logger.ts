@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getRequestContext } from './request-context';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+
+export interface LoggerSettings {
+    level: LogLevel;
+    format: LogFormat;
+    /** Directory for rotating log files; console only when unset */
+    logDir?: string;
+    maxFileSizeBytes: number;
+    maxFiles: number;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_FILE_NAME = 'orbis.log';
+const REDACTED = '[REDACTED]';
+const SENSITIVE_FIELD = /pass(word)?|secret|token|authorization|cookie|(encryption|api|old|new|private)_?key/i;
+
+let settings: LoggerSettings = {
+    level: 'info',
+    format: 'pretty',
+    maxFileSizeBytes: 10 * 1024 * 1024,
+    maxFiles: 5,
+};
+
+const secrets = new Set<string>();
+let currentFileSize: number | null = null;
+
+/**
+ * Update logger settings. Called by EnvironmentService on startup and
+ * whenever the configuration is reloaded.
+ */
+export function configureLogging(update: Partial<LoggerSettings>): void {
+    if (update.logDir !== settings.logDir) {
+        currentFileSize = null;
+    }
+    settings = { ...settings, ...update };
+}
+
+/**
+ * Register a secret value (e.g. the database key) so it is masked wherever
+ * it appears in a log line, regardless of the field it is logged under.
+ */
+export function registerSecret(value: string | undefined): void {
+    // Very short values would mask unrelated text
+    if (value && value.length >= 8) {
+        secrets.add(value);
+    }
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+    const result: Record<string, unknown> = { name: error.name, message: error.message };
+    const code = (error as { code?: unknown }).code;
+    if (code !== undefined) {
+        result.code = code;
+    }
+    if (error.stack) {
+        result.stack = error.stack;
+    }
+    if (error.cause !== undefined) {
+        result.cause = error.cause instanceof Error ? serializeError(error.cause) : error.cause;
+    }
+    return result;
+}
+
+function sanitize(value: unknown, depth: number = 0): unknown {
+    if (value instanceof Error) {
+        return sanitize(serializeError(value), depth);
+    }
+    if (depth > 5 || value === null || typeof value !== 'object') {
+        return typeof value === 'bigint' ? value.toString() : value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => sanitize(item, depth + 1));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        result[key] = SENSITIVE_FIELD.test(key) && item ? REDACTED : sanitize(item, depth + 1);
+    }
+    return result;
+}
+
+function redactSecrets(line: string): string {
+    let result = line;
+    for (const secret of secrets) {
+        result = result.split(secret).join(REDACTED);
+    }
+    return result;
+}
+
+function toFields(meta: unknown): Record<string, unknown> {
+    if (meta === undefined) {
+        return {};
+    }
+    if (meta instanceof Error) {
+        return { error: sanitize(meta) };
+    }
+    if (meta !== null && typeof meta === 'object' && !Array.isArray(meta)) {
+        return sanitize(meta) as Record<string, unknown>;
+    }
+    return { detail: sanitize(meta) };
+}
+
+function formatPretty(entry: Record<string, unknown>): string {
+    const { time, level, logger, message, requestId, ...fields } = entry;
+    const stack = (fields.error as { stack?: string } | undefined)?.stack;
+    if (stack) {
+        fields.error = { ...(fields.error as object), stack: undefined };
+    }
+
+    const parts = [
+        time,
+        String(level).toUpperCase().padEnd(5),
+        `[${logger}]`,
+        requestId ? `(${requestId})` : '',
+        message,
+        Object.keys(fields).length > 0 ? JSON.stringify(fields) : '',
+    ].filter(Boolean);
+
+    return parts.join(' ') + (stack ? `\n${stack}` : '');
+}
+
+function rotateFiles(logDir: string): void {
+    const base = path.join(logDir, LOG_FILE_NAME);
+    for (let index = settings.maxFiles - 1; index >= 1; index--) {
+        const from = index === 1 ? base : path.join(logDir, `orbis.${index - 1}.log`);
+        const to = path.join(logDir, `orbis.${index}.log`);
+        if (fs.existsSync(from)) {
+            fs.renameSync(from, to);
+        }
+    }
+    if (settings.maxFiles <= 1) {
+        fs.rmSync(base, { force: true });
+    }
+    currentFileSize = 0;
+}
+
+function writeToFile(line: string): void {
+    const logDir = settings.logDir;
+    if (!logDir) {
+        return;
+    }
+
+    try {
+        const filePath = path.join(logDir, LOG_FILE_NAME);
+        if (currentFileSize === null) {
+            fs.mkdirSync(logDir, { recursive: true });
+            currentFileSize = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+        }
+
+        const data = line + '\n';
+        if (currentFileSize + Buffer.byteLength(data) > settings.maxFileSizeBytes) {
+            rotateFiles(logDir);
+        }
+
+        fs.appendFileSync(filePath, data);
+        currentFileSize += Buffer.byteLength(data);
+    } catch (error) {
+        // Never let logging take the application down; fall back to console only
+        settings = { ...settings, logDir: undefined };
+        console.error('Failed to write log file, file logging disabled:', error);
+    }
+}
+
+export class Logger {
+    constructor(private readonly name: string, private readonly bindings: Record<string, unknown> = {}) {}
+
+    /**
+     * Create a named child logger, e.g. createLogger('updater').child('download')
+     * logs as "updater:download". Extra bindings are added to every entry.
+     */
+    public child(name: string, bindings: Record<string, unknown> = {}): Logger {
+        return new Logger(`${this.name}:${name}`, { ...this.bindings, ...bindings });
+    }
+
+    public isLevelEnabled(level: LogLevel): boolean {
+        return LEVEL_ORDER[level] >= LEVEL_ORDER[settings.level];
+    }
+
+    public debug(message: string, meta?: unknown): void {
+        this.write('debug', message, meta);
+    }
+
+    public info(message: string, meta?: unknown): void {
+        this.write('info', message, meta);
+    }
+
+    public warn(message: string, meta?: unknown): void {
+        this.write('warn', message, meta);
+    }
+
+    public error(message: string, meta?: unknown): void {
+        this.write('error', message, meta);
+    }
+
+    private write(level: LogLevel, message: string, meta?: unknown): void {
+        if (!this.isLevelEnabled(level)) {
+            return;
+        }
+
+        const context = getRequestContext();
+        const entry: Record<string, unknown> = {
+            time: new Date().toISOString(),
+            level,
+            logger: this.name,
+            message,
+            ...(context ? { requestId: context.requestId } : {}),
+            ...sanitize(this.bindings) as Record<string, unknown>,
+            ...toFields(meta),
+        };
+
+        const line = redactSecrets(settings.format === 'json' ? JSON.stringify(entry) : formatPretty(entry));
+
+        if (level === 'error') {
+            console.error(line);
+        } else if (level === 'warn') {
+            console.warn(line);
+        } else {
+            console.log(line);
+        }
+
+        // Files are always JSON so they can be parsed by log tooling
+        writeToFile(settings.format === 'json' ? line : redactSecrets(JSON.stringify(entry)));
+    }
+}
+
+export function createLogger(name: string, bindings?: Record<string, unknown>): Logger {
+    return new Logger(name, bindings);
+}
@@ -0,0 +1,156 @@
+import type Database from 'better-sqlite3';
+import { migrations as defaultMigrations, type Migration } from './migrations';
+import { createLogger } from './logger';
+
+const logger = createLogger('database:migrations');
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    applied_at: string;
+}
+
+export interface MigrationStatus {
+    currentVersion: number;
+    latestVersion: number;
+    applied: AppliedMigration[];
+    pending: { version: number; name: string }[];
+}
+
+export interface MigrationResult {
+    fromVersion: number;
+    toVersion: number;
+    applied: { version: number; name: string }[];
+}
+
+/**
+ * Thrown when the database schema is newer than anything this build knows
+ * about, e.g. after a downgrade. Starting anyway could corrupt data.
+ */
+export class SchemaVersionError extends Error {
+    constructor(public readonly databaseVersion: number, public readonly codeVersion: number) {
+        super(`Database schema version ${databaseVersion} is newer than the latest version supported by this build (${codeVersion}). Refusing to start.`);
+        this.name = 'SchemaVersionError';
+    }
+}
+
+export class MigrationRunner {
+    private migrations: Migration[];
+
+    constructor(private db: Database.Database, migrations: Migration[] = defaultMigrations) {
+        this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+        this.validateMigrations();
+    }
+
+    private validateMigrations(): void {
+        this.migrations.forEach((migration, index) => {
+            if (migration.version !== index + 1) {
+                throw new Error(`Migrations must be numbered sequentially from 1; found version ${migration.version} at position ${index + 1}`);
+            }
+        });
+    }
+
+    private ensureMigrationsTable(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+    }
+
+    public getLatestVersion(): number {
+        return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+    }
+
+    public getAppliedMigrations(): AppliedMigration[] {
+        this.ensureMigrationsTable();
+        return this.db
+            .prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC')
+            .all() as AppliedMigration[];
+    }
+
+    public getCurrentVersion(): number {
+        this.ensureMigrationsTable();
+        const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+        return row.version ?? 0;
+    }
+
+    public getStatus(): MigrationStatus {
+        const applied = this.getAppliedMigrations();
+        const appliedVersions = new Set(applied.map(m => m.version));
+
+        return {
+            currentVersion: this.getCurrentVersion(),
+            latestVersion: this.getLatestVersion(),
+            applied,
+            pending: this.migrations
+                .filter(m => !appliedVersions.has(m.version))
+                .map(({ version, name }) => ({ version, name })),
+        };
+    }
+
+    /**
+     * Apply every pending migration in order, each in its own transaction.
+     * Throws SchemaVersionError if the database is ahead of this build.
+     */
+    public migrate(): MigrationResult {
+        const fromVersion = this.getCurrentVersion();
+        const latestVersion = this.getLatestVersion();
+
+        if (fromVersion > latestVersion) {
+            throw new SchemaVersionError(fromVersion, latestVersion);
+        }
+
+        const applied: MigrationResult['applied'] = [];
+        const recordMigration = this.db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+
+        for (const migration of this.migrations.filter(m => m.version > fromVersion)) {
+            logger.info('Applying migration', { version: migration.version, name: migration.name });
+
+            this.db.transaction(() => {
+                migration.up(this.db);
+                recordMigration.run(migration.version, migration.name);
+            })();
+
+            applied.push({ version: migration.version, name: migration.name });
+        }
+
+        return { fromVersion, toVersion: this.getCurrentVersion(), applied };
+    }
+
+    /**
+     * Revert applied migrations, newest first, until the schema is at targetVersion.
+     */
+    public rollback(targetVersion: number): MigrationResult {
+        const fromVersion = this.getCurrentVersion();
+
+        if (targetVersion < 0 || targetVersion > fromVersion) {
+            throw new Error(`Cannot roll back from version ${fromVersion} to ${targetVersion}`);
+        }
+        if (fromVersion > this.getLatestVersion()) {
+            throw new SchemaVersionError(fromVersion, this.getLatestVersion());
+        }
+
+        const reverted: MigrationResult['applied'] = [];
+        const removeMigration = this.db.prepare('DELETE FROM schema_migrations WHERE version = ?');
+
+        const toRevert = this.migrations
+            .filter(m => m.version > targetVersion && m.version <= fromVersion)
+            .reverse();
+
+        for (const migration of toRevert) {
+            logger.info('Reverting migration', { version: migration.version, name: migration.name });
+
+            this.db.transaction(() => {
+                migration.down(this.db);
+                removeMigration.run(migration.version);
+            })();
+
+            reverted.push({ version: migration.version, name: migration.name });
+        }
+
+        return { fromVersion, toVersion: this.getCurrentVersion(), applied: reverted };
+    }
+}
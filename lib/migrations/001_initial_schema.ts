@@ -0,0 +1,53 @@
+import type { Migration } from './index';
+
+// Baseline schema. Uses IF NOT EXISTS / OR IGNORE so databases created before
+// the migration engine existed are adopted without touching their data.
+export const initialSchema: Migration = {
+    version: 1,
+    name: 'initial_schema',
+
+    up(db) {
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS users (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                username TEXT UNIQUE NOT NULL,
+                email TEXT UNIQUE NOT NULL,
+                password_hash TEXT NOT NULL,
+                role TEXT DEFAULT 'user',
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS sessions (
+                id TEXT PRIMARY KEY,
+                user_id INTEGER NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                expires_at DATETIME NOT NULL,
+                FOREIGN KEY (user_id) REFERENCES users (id)
+            );
+        `);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS system_settings (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL,
+                description TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
+        const settingsInsert = db.prepare('INSERT OR IGNORE INTO system_settings (key, value, description) VALUES (?, ?, ?)');
+        settingsInsert.run('app_version', '1.0.0', 'Application version');
+        settingsInsert.run('encryption_type', 'SQLCipher', 'Database encryption method');
+        settingsInsert.run('database_initialized', new Date().toISOString(), 'Database initialization timestamp');
+    },
+
+    down(db) {
+        db.exec('DROP TABLE IF EXISTS sessions;');
+        db.exec('DROP TABLE IF EXISTS users;');
+        db.exec('DROP TABLE IF EXISTS system_settings;');
+    },
+};
@@ -0,0 +1,32 @@
+import type { Migration } from './index';
+
+// Audit trail of update checks, downloads, installs and rollbacks, so what
+// the updater did survives the restarts it causes.
+export const updateHistory: Migration = {
+    version: 2,
+    name: 'update_history',
+
+    up(db) {
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS update_history (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                event TEXT NOT NULL,
+                outcome TEXT NOT NULL,
+                from_version TEXT,
+                to_version TEXT,
+                duration_ms INTEGER,
+                message TEXT,
+                error TEXT,
+                initiated_by TEXT NOT NULL,
+                job_id TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+        db.exec('CREATE INDEX IF NOT EXISTS idx_update_history_event ON update_history (event, id);');
+    },
+
+    // The table is kept: a rollback runs this step before it records itself
+    // in the history, and builds older than this migration ignore the table.
+    // up() picks it up again on the next upgrade.
+    down() {},
+};
@@ -0,0 +1,41 @@
+import type { Migration } from './index';
+
+// Sessions were declared by the initial schema but never written, so the
+// table is rebuilt rather than altered. Rows are keyed by a hash of the
+// cookie value, and carry both a sliding and an absolute expiry.
+export const sessionTracking: Migration = {
+    version: 3,
+    name: 'session_tracking',
+
+    up(db) {
+        db.exec('DROP TABLE IF EXISTS sessions;');
+        db.exec(`
+            CREATE TABLE sessions (
+                id TEXT PRIMARY KEY,
+                user_id INTEGER NOT NULL,
+                created_at DATETIME NOT NULL,
+                last_seen_at DATETIME NOT NULL,
+                expires_at DATETIME NOT NULL,
+                absolute_expires_at DATETIME NOT NULL,
+                user_agent TEXT,
+                ip_address TEXT,
+                FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+            );
+        `);
+        db.exec('CREATE INDEX idx_sessions_user ON sessions (user_id);');
+        db.exec('CREATE INDEX idx_sessions_expires ON sessions (expires_at);');
+    },
+
+    down(db) {
+        db.exec('DROP TABLE IF EXISTS sessions;');
+        db.exec(`
+            CREATE TABLE sessions (
+                id TEXT PRIMARY KEY,
+                user_id INTEGER NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                expires_at DATETIME NOT NULL,
+                FOREIGN KEY (user_id) REFERENCES users (id)
+            );
+        `);
+    },
+};
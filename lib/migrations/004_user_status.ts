@@ -0,0 +1,56 @@
+import type { Migration } from './index';
+
+// Matches no hash format any build writes, so no password verifies against it
+const LOCKED_PASSWORD_HASH = '!disabled';
+
+// Accounts are disabled rather than deleted, so the sessions and update
+// history that refer to them stay intact. The triggers keep updated_at
+// current whatever the update path, and make sure the last active
+// administrator can be neither demoted, disabled nor deleted.
+export const userStatus: Migration = {
+    version: 4,
+    name: 'user_status',
+
+    up(db) {
+        db.exec('ALTER TABLE users ADD COLUMN disabled_at DATETIME;');
+
+        db.exec(`
+            CREATE TRIGGER users_touch_updated_at AFTER UPDATE ON users
+            WHEN NEW.updated_at IS OLD.updated_at
+            BEGIN
+                UPDATE users SET updated_at = datetime('now') WHERE id = NEW.id;
+            END;
+        `);
+
+        db.exec(`
+            CREATE TRIGGER users_keep_last_admin_on_update BEFORE UPDATE OF role, disabled_at ON users
+            WHEN OLD.role = 'admin' AND OLD.disabled_at IS NULL
+                AND (NEW.role IS NOT 'admin' OR NEW.disabled_at IS NOT NULL)
+                AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin' AND disabled_at IS NULL AND id != OLD.id)
+            BEGIN
+                SELECT RAISE(ABORT, 'LAST_ADMIN');
+            END;
+        `);
+
+        db.exec(`
+            CREATE TRIGGER users_keep_last_admin_on_delete BEFORE DELETE ON users
+            WHEN OLD.role = 'admin' AND OLD.disabled_at IS NULL
+                AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin' AND disabled_at IS NULL AND id != OLD.id)
+            BEGIN
+                SELECT RAISE(ABORT, 'LAST_ADMIN');
+            END;
+        `);
+    },
+
+    down(db) {
+        // Older builds have no notion of a disabled account; lock those
+        // accounts out and end their sessions before the marker is dropped
+        db.prepare('UPDATE users SET password_hash = ? WHERE disabled_at IS NOT NULL;').run(LOCKED_PASSWORD_HASH);
+        db.exec('DELETE FROM sessions WHERE user_id IN (SELECT id FROM users WHERE disabled_at IS NOT NULL);');
+
+        db.exec('DROP TRIGGER IF EXISTS users_keep_last_admin_on_delete;');
+        db.exec('DROP TRIGGER IF EXISTS users_keep_last_admin_on_update;');
+        db.exec('DROP TRIGGER IF EXISTS users_touch_updated_at;');
+        db.exec('ALTER TABLE users DROP COLUMN disabled_at;');
+    },
+};
@@ -0,0 +1,25 @@
+import type { Migration } from './index';
+
+// Indexes behind the paginated user listing: one per sort field, ending in
+// id so a page boundary between equal values is found without a scan. The
+// expressions must match USER_SORT_EXPRESSIONS in lib/database.ts.
+export const userListingIndexes: Migration = {
+    version: 5,
+    name: 'user_listing_indexes',
+
+    up(db) {
+        db.exec('CREATE INDEX idx_users_username_nocase ON users (username COLLATE NOCASE, id);');
+        db.exec('CREATE INDEX idx_users_email_nocase ON users (email COLLATE NOCASE, id);');
+        db.exec('CREATE INDEX idx_users_role ON users (role, id);');
+        db.exec('CREATE INDEX idx_users_created_at ON users (created_at, id);');
+        db.exec('CREATE INDEX idx_users_updated_at ON users (updated_at, id);');
+    },
+
+    down(db) {
+        db.exec('DROP INDEX IF EXISTS idx_users_updated_at;');
+        db.exec('DROP INDEX IF EXISTS idx_users_created_at;');
+        db.exec('DROP INDEX IF EXISTS idx_users_role;');
+        db.exec('DROP INDEX IF EXISTS idx_users_email_nocase;');
+        db.exec('DROP INDEX IF EXISTS idx_users_username_nocase;');
+    },
+};
@@ -0,0 +1,27 @@
+import type Database from 'better-sqlite3';
+import { initialSchema } from './001_initial_schema';
+import { updateHistory } from './002_update_history';
+import { sessionTracking } from './003_session_tracking';
+import { userStatus } from './004_user_status';
+import { userListingIndexes } from './005_user_listing_indexes';
+
+export interface Migration {
+    /** Sequential, unique schema version this migration brings the database to */
+    version: number;
+    /** Short snake_case description, recorded in schema_migrations */
+    name: string;
+    up(db: Database.Database): void;
+    down(db: Database.Database): void;
+}
+
+/**
+ * All known migrations, in the order they must be applied.
+ * Append new migrations here - never renumber or edit one that has shipped.
+ */
+export const migrations: Migration[] = [
+    initialSchema,
+    updateHistory,
+    sessionTracking,
+    userStatus,
+    userListingIndexes,
+];
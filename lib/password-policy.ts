@@ -0,0 +1,51 @@
+import { COMMON_PASSWORDS } from './common-passwords';
+import { envService } from './environment.service';
+
+// The one place new passwords are checked. checkPassword is called from
+// lib/user-validation.ts, which every route that sets a password goes
+// through; nothing else decides what a strong enough password is.
+
+// Upper bound keeps hashing cost predictable; passphrases fit comfortably
+export const MAX_PASSWORD_LENGTH = 256;
+
+export interface PasswordContext {
+    username?: string;
+    email?: string;
+}
+
+function isCommonPassword(password: string): boolean {
+    const lower = password.toLowerCase();
+    // Catches the usual decorations: Password1!, !!qwerty2024
+    const core = lower.replace(/^[\d\W_]+|[\d\W_]+$/g, '');
+    return COMMON_PASSWORDS.has(lower) || (core.length > 0 && COMMON_PASSWORDS.has(core));
+}
+
+/** Every rule the password breaks; empty when it is acceptable */
+export function checkPassword(password: string, context: PasswordContext = {}): string[] {
+    const problems: string[] = [];
+    const minLength = envService.getConfig().passwordMinLength;
+    // Count characters rather than UTF-16 units, so emoji are not double counted
+    const length = [...password].length;
+
+    if (length < minLength) {
+        problems.push(`must be at least ${minLength} characters long`);
+    }
+    if (length > MAX_PASSWORD_LENGTH) {
+        problems.push(`must be at most ${MAX_PASSWORD_LENGTH} characters long`);
+    }
+    if (length > 0 && new Set(password).size === 1) {
+        problems.push('must not be a single repeated character');
+    }
+    if (isCommonPassword(password)) {
+        problems.push('is too common; it appears in lists of breached passwords');
+    }
+
+    const lower = password.toLowerCase();
+    const username = context.username?.trim().toLowerCase();
+    const mailbox = context.email?.trim().toLowerCase().split('@')[0];
+    if ((username && lower === username) || (mailbox && lower === mailbox)) {
+        problems.push('must not be the same as the username or email address');
+    }
+
+    return problems;
+}
@@ -0,0 +1,120 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+import { envService } from './environment.service';
+
+// Password hashes are stored as self-describing strings, so the parameters
+// can be raised later without breaking existing accounts:
+//
+//   $scrypt$v=1$ln=15,r=8,p=1$<salt>$<hash>      (salt and hash base64)
+//
+// ln is log2 of the scrypt cost N. A hash made with other parameters, or in
+// the legacy unsalted SHA-256 hex format, still verifies but is reported as
+// needing a rehash, which the login flow does with the plaintext it has.
+
+const FORMAT_VERSION = 1;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+const HASH_FORMAT = /^\$scrypt\$v=(\d+)\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+={0,2})\$([A-Za-z0-9+/]+={0,2})$/;
+const LEGACY_SHA256 = /^[0-9a-f]{64}$/i;
+// PASSWORD_HASH_COST's range; cost 20 already takes 1 GiB per hash
+const MIN_COST = 14;
+const MAX_COST = 20;
+const MAX_PARALLELIZATION = 16;
+
+export interface PasswordVerification {
+    valid: boolean;
+    /** The hash was made with older parameters or format; store a fresh one */
+    needsRehash: boolean;
+}
+
+interface ScryptParameters {
+    version: number;
+    cost: number;
+    blockSize: number;
+    parallelization: number;
+}
+
+function currentParameters(): ScryptParameters {
+    return {
+        version: FORMAT_VERSION,
+        cost: envService.getConfig().passwordHashCost,
+        blockSize: BLOCK_SIZE,
+        parallelization: PARALLELIZATION,
+    };
+}
+
+function deriveKey(password: string, salt: Buffer, params: ScryptParameters, keyLength: number): Promise<Buffer> {
+    const N = 2 ** params.cost;
+    const options: ScryptOptions = {
+        N,
+        r: params.blockSize,
+        p: params.parallelization,
+        // The default 32 MiB limit is too small for cost 15 and above
+        maxmem: 256 * N * params.blockSize,
+    };
+    return new Promise((resolve, reject) => {
+        scrypt(password.normalize('NFC'), salt, keyLength, options, (error, key) => error ? reject(error) : resolve(key));
+    });
+}
+
+function sameParameters(a: ScryptParameters, b: ScryptParameters): boolean {
+    return a.version === b.version && a.cost === b.cost && a.blockSize === b.blockSize && a.parallelization === b.parallelization;
+}
+
+function parseHash(storedHash: string): { params: ScryptParameters; salt: Buffer; key: Buffer } | null {
+    const match = storedHash.match(HASH_FORMAT);
+    if (!match) {
+        return null;
+    }
+    return {
+        params: {
+            version: Number(match[1]),
+            cost: Number(match[2]),
+            blockSize: Number(match[3]),
+            parallelization: Number(match[4]),
+        },
+        salt: Buffer.from(match[5], 'base64'),
+        key: Buffer.from(match[6], 'base64'),
+    };
+}
+
+export async function hashPassword(password: string): Promise<string> {
+    const params = currentParameters();
+    const salt = randomBytes(SALT_BYTES);
+    const key = await deriveKey(password, salt, params, KEY_BYTES);
+    return `$scrypt$v=${params.version}$ln=${params.cost},r=${params.blockSize},p=${params.parallelization}$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+/**
+ * Check a password against a stored hash. Never throws for a malformed
+ * hash; it simply does not verify.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<PasswordVerification> {
+    const parsed = parseHash(storedHash);
+    if (parsed) {
+        const { params, salt, key } = parsed;
+        // Refuse parameters no build of ours writes, rather than let a tampered row exhaust memory
+        if (
+            params.version !== FORMAT_VERSION ||
+            params.cost < MIN_COST || params.cost > MAX_COST ||
+            params.blockSize !== BLOCK_SIZE ||
+            params.parallelization < 1 || params.parallelization > MAX_PARALLELIZATION ||
+            key.length === 0
+        ) {
+            return { valid: false, needsRehash: false };
+        }
+
+        const actual = await deriveKey(password, salt, params, key.length);
+        const valid = timingSafeEqual(actual, key);
+        return { valid, needsRehash: valid && !sameParameters(params, currentParameters()) };
+    }
+
+    if (LEGACY_SHA256.test(storedHash)) {
+        const actual = createHash('sha256').update(password).digest();
+        const valid = timingSafeEqual(actual, Buffer.from(storedHash, 'hex'));
+        return { valid, needsRehash: valid };
+    }
+
+    return { valid: false, needsRehash: false };
+}
@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+export interface RequestContext {
+    requestId: string;
+    method: string;
+    path: string;
+}
+
+const REQUEST_ID_HEADER = 'x-request-id';
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * The context of the API request currently being handled, if any.
+ */
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
+
+/**
+ * Wrap a route handler so everything it logs carries a correlation ID.
+ * An incoming X-Request-Id header is reused (so IDs can span services),
+ * otherwise one is generated; either way it is echoed on the response.
+ */
+export function withRequestContext<C = { params: Promise<Record<string, string>> }>(
+    handler: (request: NextRequest, context: C) => Promise<Response> | Response,
+): (request: NextRequest, context: C) => Promise<Response> {
+    return async (request, context) => {
+        const incoming = request.headers.get(REQUEST_ID_HEADER);
+        const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+        const response = await storage.run(
+            { requestId, method: request.method, path: request.nextUrl.pathname },
+            () => handler(request, context),
+        );
+
+        try {
+            response.headers.set(REQUEST_ID_HEADER, requestId);
+        } catch {
+            // Some responses (e.g. redirects) have immutable headers
+        }
+        return response;
+    };
+}
@@ -0,0 +1,88 @@
+// Semantic Versioning 2.0.0 parsing and precedence (https://semver.org).
+// Only what the updater needs: no ranges, no coercion of loose versions
+// beyond an optional leading "v".
+
+export interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    /** Dot-separated pre-release identifiers, e.g. ['beta', 2] for 1.0.0-beta.2 */
+    prerelease: (string | number)[];
+    /** Build metadata; ignored for precedence */
+    build: string[];
+    /** The normalized version string, without a leading "v" */
+    version: string;
+}
+
+const SEMVER_PATTERN = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Parse a version string, returning null if it is not valid semver.
+ */
+export function parseVersion(input: string | null | undefined): SemVer | null {
+    const match = input?.trim().match(SEMVER_PATTERN);
+    if (!match) {
+        return null;
+    }
+
+    const [, major, minor, patch, prerelease, build] = match;
+    return {
+        major: Number(major),
+        minor: Number(minor),
+        patch: Number(patch),
+        prerelease: prerelease ? prerelease.split('.').map(id => /^\d+$/.test(id) ? Number(id) : id) : [],
+        build: build ? build.split('.') : [],
+        version: input!.trim().replace(/^v/, ''),
+    };
+}
+
+function compareIdentifiers(a: string | number, b: string | number): number {
+    if (typeof a === 'number' && typeof b === 'number') {
+        return Math.sign(a - b);
+    }
+    // Numeric identifiers always have lower precedence than alphanumeric ones
+    if (typeof a === 'number') return -1;
+    if (typeof b === 'number') return 1;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare by semver precedence: -1 if a < b, 0 if equal, 1 if a > b.
+ * A pre-release sorts before its release (1.0.0-rc.1 < 1.0.0) and build
+ * metadata is ignored (1.0.0+a == 1.0.0+b).
+ */
+export function compareVersions(a: SemVer | string, b: SemVer | string): -1 | 0 | 1 {
+    const left = typeof a === 'string' ? parseVersion(a) : a;
+    const right = typeof b === 'string' ? parseVersion(b) : b;
+    if (!left || !right) {
+        throw new Error(`Invalid version: ${!left ? a : b}`);
+    }
+
+    for (const part of ['major', 'minor', 'patch'] as const) {
+        if (left[part] !== right[part]) {
+            return left[part] < right[part] ? -1 : 1;
+        }
+    }
+
+    if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+        return Math.sign(right.prerelease.length - left.prerelease.length) as -1 | 0 | 1;
+    }
+
+    const length = Math.max(left.prerelease.length, right.prerelease.length);
+    for (let index = 0; index < length; index++) {
+        // A shorter set of identifiers has lower precedence when all before it are equal
+        if (left.prerelease[index] === undefined) return -1;
+        if (right.prerelease[index] === undefined) return 1;
+        const result = compareIdentifiers(left.prerelease[index], right.prerelease[index]);
+        if (result !== 0) {
+            return result as -1 | 1;
+        }
+    }
+
+    return 0;
+}
+
+export function isPrerelease(version: SemVer | string): boolean {
+    const parsed = typeof version === 'string' ? parseVersion(version) : version;
+    return !!parsed && parsed.prerelease.length > 0;
+}
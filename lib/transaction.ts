@@ -0,0 +1,104 @@
+import type Database from 'better-sqlite3';
+
+export type TransactionMode = 'deferred' | 'immediate' | 'exclusive';
+
+export interface TransactionOptions {
+    /** SQLite locking mode for the outermost transaction (default: deferred) */
+    mode?: TransactionMode;
+    /** How many times to retry when the database is busy (default: 5) */
+    maxRetries?: number;
+    /** Initial backoff delay in milliseconds, doubled on every retry (default: 50) */
+    retryDelayMs?: number;
+}
+
+export type TransactionCallback<T> = (tx: Transaction) => T;
+
+/**
+ * Handle passed to transaction callbacks. All statements run on the writer
+ * connection inside the surrounding transaction or savepoint.
+ *
+ * Callbacks must be synchronous: awaiting inside a transaction would let
+ * unrelated queries interleave on the shared writer connection.
+ */
+export class Transaction {
+    constructor(
+        private db: Database.Database,
+        private prepare: (sql: string) => Database.Statement,
+        private depth: number = 0,
+    ) {}
+
+    public all<T = Record<string, unknown>>(sql: string, params: unknown[] = []): T[] {
+        return this.prepare(sql).all(...params) as T[];
+    }
+
+    public get<T = Record<string, unknown>>(sql: string, params: unknown[] = []): T | undefined {
+        return this.prepare(sql).get(...params) as T | undefined;
+    }
+
+    public run(sql: string, params: unknown[] = []): Database.RunResult {
+        return this.prepare(sql).run(...params);
+    }
+
+    public exec(sql: string): void {
+        this.db.exec(sql);
+    }
+
+    /**
+     * Run a nested unit of work in a savepoint. If the callback throws, only
+     * the work done inside it is rolled back and the error is rethrown.
+     */
+    public transaction<T>(fn: TransactionCallback<T>): T {
+        const savepoint = `sp_${this.depth + 1}`;
+        const nested = new Transaction(this.db, this.prepare, this.depth + 1);
+
+        this.db.exec(`SAVEPOINT ${savepoint}`);
+        try {
+            const result = runSynchronously(fn, nested);
+            this.db.exec(`RELEASE ${savepoint}`);
+            return result;
+        } catch (error) {
+            this.db.exec(`ROLLBACK TO ${savepoint}`);
+            this.db.exec(`RELEASE ${savepoint}`);
+            throw error;
+        }
+    }
+}
+
+function runSynchronously<T>(fn: TransactionCallback<T>, tx: Transaction): T {
+    const result = fn(tx);
+    if (result && typeof (result as { then?: unknown }).then === 'function') {
+        throw new Error('Transaction callbacks must be synchronous; do not return a promise');
+    }
+    return result;
+}
+
+export function isBusyError(error: unknown): boolean {
+    const code = (error as { code?: unknown } | null)?.code;
+    return typeof code === 'string' && (code.startsWith('SQLITE_BUSY') || code.startsWith('SQLITE_LOCKED'));
+}
+
+/**
+ * Run fn inside BEGIN/COMMIT on the given connection, rolling back on error.
+ */
+export function runTransaction<T>(
+    db: Database.Database,
+    prepare: (sql: string) => Database.Statement,
+    fn: TransactionCallback<T>,
+    mode: TransactionMode = 'deferred',
+): T {
+    if (db.inTransaction) {
+        throw new Error('A transaction is already open on this connection; use tx.transaction() to nest');
+    }
+
+    db.exec(`BEGIN ${mode.toUpperCase()}`);
+    try {
+        const result = runSynchronously(fn, new Transaction(db, prepare));
+        db.exec('COMMIT');
+        return result;
+    } catch (error) {
+        if (db.inTransaction) {
+            db.exec('ROLLBACK');
+        }
+        throw error;
+    }
+}
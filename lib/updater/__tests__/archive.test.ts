@@ -0,0 +1,101 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArchiveError, crc32, extractArchive } from '../archive';
+import { buildTarGz, buildZip, makeTempDir, type FixtureEntry } from './fixtures';
+
+const workDir = makeTempDir('archive-test');
+after(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+let fixtureCount = 0;
+
+function writeFixture(format: 'zip' | 'tar.gz', entries: FixtureEntry[]): { archive: string; dest: string } {
+    const id = fixtureCount++;
+    const archive = path.join(workDir, `fixture-${id}.${format}`);
+    fs.writeFileSync(archive, format === 'zip' ? buildZip(entries) : buildTarGz(entries));
+    return { archive, dest: path.join(workDir, `out-${id}`, 'package') };
+}
+
+test('crc32 matches the standard check value', () => {
+    assert.equal(crc32(Buffer.from('123456789')), 0xcbf43926);
+    assert.equal(crc32(Buffer.alloc(0)), 0);
+});
+
+for (const format of ['zip', 'tar.gz'] as const) {
+    describe(format, () => {
+        test('extracts files and directories', () => {
+            const { archive, dest } = writeFixture(format, [
+                { name: '.next/' },
+                { name: '.next/standalone/server.js', contents: 'console.log("hi");', deflate: true },
+                { name: 'public/logo.txt', contents: 'logo' },
+            ]);
+
+            const files = extractArchive(archive, dest);
+
+            assert.deepEqual(files.sort(), ['.next/standalone/server.js', 'public/logo.txt']);
+            assert.equal(fs.readFileSync(path.join(dest, '.next', 'standalone', 'server.js'), 'utf8'), 'console.log("hi");');
+        });
+
+        test('rejects an entry that climbs out with ../', () => {
+            const { archive, dest } = writeFixture(format, [
+                { name: '../escaped.txt', contents: 'owned' },
+            ]);
+
+            assert.throws(() => extractArchive(archive, dest), ArchiveError);
+            assert.equal(fs.existsSync(path.join(path.dirname(dest), 'escaped.txt')), false);
+        });
+
+        test('rejects a ../ hidden inside a longer path', () => {
+            const { archive, dest } = writeFixture(format, [
+                { name: 'public/../../escaped.txt', contents: 'owned' },
+            ]);
+
+            assert.throws(() => extractArchive(archive, dest), /escapes the destination/);
+        });
+
+        test('rejects absolute entry paths', () => {
+            for (const name of ['/tmp/orbis-absolute.txt', 'C:/Windows/orbis.txt', 'C:\\Windows\\orbis.txt']) {
+                const { archive, dest } = writeFixture(format, [{ name, contents: 'owned' }]);
+                assert.throws(() => extractArchive(archive, dest), /absolute path/, name);
+            }
+            assert.equal(fs.existsSync('/tmp/orbis-absolute.txt'), false);
+        });
+
+        test('rejects symbolic links', () => {
+            const { archive, dest } = writeFixture(format, [
+                format === 'zip'
+                    ? { name: 'link', contents: '/etc/passwd', mode: 0o120777 }
+                    : { name: 'link', contents: '', tarType: '2' },
+            ]);
+
+            assert.throws(() => extractArchive(archive, dest), ArchiveError);
+            assert.equal(fs.existsSync(path.join(dest, 'link')), false);
+        });
+    });
+}
+
+describe('zip CRC check', () => {
+    test('rejects an entry whose contents do not match its CRC', () => {
+        const { archive, dest } = writeFixture('zip', [
+            { name: 'server.js', contents: 'tampered', crc: crc32(Buffer.from('original')) },
+        ]);
+
+        assert.throws(() => extractArchive(archive, dest), /failed its CRC check/);
+    });
+
+    test('rejects a deflated entry whose CRC does not match', () => {
+        const { archive, dest } = writeFixture('zip', [
+            { name: 'server.js', contents: 'tampered'.repeat(50), deflate: true, crc: 0x12345678 },
+        ]);
+
+        assert.throws(() => extractArchive(archive, dest), /failed its CRC check/);
+    });
+});
+
+test('rejects a file that is neither zip nor gzip', () => {
+    const archive = path.join(workDir, 'not-an-archive.zip');
+    fs.writeFileSync(archive, 'plain text');
+
+    assert.throws(() => extractArchive(archive, path.join(workDir, 'unused')), /neither a zip nor/);
+});
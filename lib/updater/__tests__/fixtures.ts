@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { crc32 } from '../archive';
+
+// Builders for small update archives, so each test states exactly which
+// entries its fixture holds instead of shipping opaque binaries.
+
+export interface FixtureEntry {
+    name: string;
+    /** Omit for a directory */
+    contents?: string | Buffer;
+    /** Unix file type and permission bits, e.g. 0o120777 for a symlink */
+    mode?: number;
+    /** Tar type flag; defaults to "0" for files and "5" for directories */
+    tarType?: string;
+    /** Zip only: store this CRC instead of the real one */
+    crc?: number;
+    /** Zip only: deflate instead of store */
+    deflate?: boolean;
+}
+
+export function makeTempDir(prefix: string): string {
+    return fs.mkdtempSync(path.join(os.tmpdir(), `orbis-${prefix}-`));
+}
+
+export function buildZip(entries: FixtureEntry[]): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const raw = Buffer.from(entry.contents ?? '');
+        const data = entry.deflate ? zlib.deflateRawSync(raw) : raw;
+        const method = entry.deflate ? 8 : 0;
+        const crc = entry.crc ?? crc32(raw);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        locals.push(local, name, data);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        // Made on Unix, so the external attributes carry the file mode
+        central.writeUInt16LE((3 << 8) | 20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(method, 10);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(raw.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(((entry.mode ?? (entry.contents === undefined ? 0o040755 : 0o100644)) << 16) >>> 0, 38);
+        central.writeUInt32LE(offset, 42);
+        centrals.push(central, name);
+
+        offset += local.length + name.length + data.length;
+    }
+
+    const centralDirectory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+function tarHeader(entry: FixtureEntry, size: number): Buffer {
+    const header = Buffer.alloc(512);
+    const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0') + '\0';
+
+    header.write(entry.name, 0, 100, 'utf8');
+    header.write(octal((entry.mode ?? 0o644) & 0o7777, 8), 100, 'ascii');
+    header.write(octal(0, 8), 108, 'ascii');
+    header.write(octal(0, 8), 116, 'ascii');
+    header.write(octal(size, 12), 124, 'ascii');
+    header.write(octal(0, 12), 136, 'ascii');
+    header.write(entry.tarType ?? (entry.contents === undefined ? '5' : '0'), 156, 'ascii');
+    header.write('ustar\0', 257, 'ascii');
+    header.write('00', 263, 'ascii');
+
+    // The checksum is computed with its own field filled with spaces
+    header.fill(0x20, 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(octal(checksum, 7) + ' ', 148, 'ascii');
+    return header;
+}
+
+export function buildTarGz(entries: FixtureEntry[]): Buffer {
+    const blocks: Buffer[] = [];
+    for (const entry of entries) {
+        const contents = Buffer.from(entry.contents ?? '');
+        blocks.push(tarHeader(entry, contents.length), contents, Buffer.alloc((512 - (contents.length % 512)) % 512));
+    }
+    blocks.push(Buffer.alloc(1024));
+    return zlib.gzipSync(Buffer.concat(blocks));
+}
+
+/** Write each relative path with its contents under dir */
+export function writeTree(dir: string, files: Record<string, string>): void {
+    for (const [relative, contents] of Object.entries(files)) {
+        const filePath = path.join(dir, ...relative.split('/'));
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, contents);
+    }
+}
@@ -0,0 +1,150 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractArchive } from '../archive';
+import { selectRelease, type ChannelSettings } from '../channels';
+import { downloadAsset } from '../download';
+import { INSTALL_STATE_FILE, stageVersion } from '../install';
+import { createUpdateSource, type Release, type UpdateSource } from '../sources';
+import { evaluateRelease, findReleaseAssets } from '../updater.service';
+import {
+    createManifest,
+    getManifestAssetName,
+    getSignatureAssetName,
+    UpdateVerificationError,
+    verifyArchive,
+    verifyExtractedFiles,
+    verifyManifest,
+} from '../verification';
+import { buildZip, makeTempDir, writeTree } from './fixtures';
+
+// A release published to a local directory the way CI and
+// scripts/sign-update.ts publish one, taken through the same steps the
+// updater runs: list, evaluate, verify, download, extract, stage.
+
+const INSTALLED_VERSION = '1.2.0';
+const RELEASE_VERSION = '1.3.0';
+const ARCHIVE_NAME = `orbis-${RELEASE_VERSION}.zip`;
+const STABLE: ChannelSettings = { channel: 'stable', pinnedVersion: null };
+const PACKAGE_FILES = {
+    '.next/standalone/server.js': 'console.log("orbis 1.3.0");',
+    '.next/static/app.js': 'export {};',
+    'public/logo.txt': 'logo',
+    'version.json': JSON.stringify({ version: RELEASE_VERSION }),
+};
+
+const workDir = makeTempDir('local-release-test');
+const releaseDir = path.join(workDir, 'releases');
+const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+let source: UpdateSource;
+let release: Release;
+
+before(async () => {
+    const packageDir = path.join(workDir, 'package');
+    writeTree(packageDir, PACKAGE_FILES);
+
+    fs.mkdirSync(releaseDir, { recursive: true });
+    const archivePath = path.join(releaseDir, ARCHIVE_NAME);
+    fs.writeFileSync(archivePath, buildZip(
+        Object.entries(PACKAGE_FILES).map(([name, contents]) => ({ name, contents, deflate: true })),
+    ));
+
+    const manifest = await createManifest({ name: 'orbis-ship', version: RELEASE_VERSION, packageDir, archivePath });
+    const manifestBytes = Buffer.from(JSON.stringify(manifest, null, 2));
+    fs.writeFileSync(path.join(releaseDir, getManifestAssetName(ARCHIVE_NAME)), manifestBytes);
+    fs.writeFileSync(
+        path.join(releaseDir, getSignatureAssetName(ARCHIVE_NAME)),
+        crypto.sign(null, manifestBytes, privateKey).toString('base64') + '\n',
+    );
+    fs.writeFileSync(
+        path.join(releaseDir, `orbis-${RELEASE_VERSION}.md`),
+        '<!-- orbis:minimum-supported-version=1.0.0 -->\nFaster startup.',
+    );
+
+    source = createUpdateSource({
+        updaterSource: 'local',
+        updaterRepository: 'mehtabshadan/orbis-ship',
+        updaterFeedUrl: undefined,
+        updaterLocalPath: releaseDir,
+    });
+    const selected = selectRelease(await source.listReleases(), STABLE);
+    assert.ok(selected, 'the local source lists the release');
+    release = selected;
+});
+
+after(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+async function downloadManifest() {
+    const assets = findReleaseAssets(release, RELEASE_VERSION);
+    const manifestBytes = await source.download(assets.manifest);
+    const signature = (await source.download(assets.signature)).toString('utf8');
+    return { assets, manifestBytes, signature };
+}
+
+test('offers the release as an update to an older install', () => {
+    const evaluation = evaluateRelease(INSTALLED_VERSION, release, STABLE);
+
+    assert.equal(evaluation.reason, 'update-available');
+    assert.equal(evaluation.latestVersion, RELEASE_VERSION);
+    assert.equal(evaluation.minimumSupportedVersion, '1.0.0');
+    assert.equal(evaluateRelease(RELEASE_VERSION, release, STABLE).reason, 'up-to-date');
+    assert.equal(evaluateRelease('0.9.0', release, STABLE).reason, 'stepped-upgrade-required');
+});
+
+test('verifies, extracts and stages the release into the install root', async () => {
+    const { assets, manifestBytes, signature } = await downloadManifest();
+    const manifest = verifyManifest(manifestBytes, signature, publicKeyPem);
+    assert.equal(manifest.version, RELEASE_VERSION);
+    assert.equal(manifest.archive.name, assets.archive.name);
+
+    const tempDir = path.join(workDir, 'temp-update');
+    const archiveFile = path.join(tempDir, 'downloads', assets.archive.name);
+    fs.mkdirSync(path.dirname(archiveFile), { recursive: true });
+    await downloadAsset(source, assets.archive, archiveFile, { expectedSize: manifest.archive.size });
+    await verifyArchive(archiveFile, manifest);
+
+    const extractDir = path.join(tempDir, 'extracted');
+    extractArchive(archiveFile, extractDir);
+    await verifyExtractedFiles(extractDir, manifest);
+
+    const installRoot = path.join(workDir, 'install');
+    fs.mkdirSync(installRoot);
+    const installed = stageVersion(installRoot, extractDir, RELEASE_VERSION, INSTALLED_VERSION);
+
+    assert.deepEqual(installed, { version: RELEASE_VERSION, path: `versions/${RELEASE_VERSION}` });
+    for (const [file, contents] of Object.entries(PACKAGE_FILES)) {
+        assert.equal(fs.readFileSync(path.join(installRoot, installed.path, file), 'utf8'), contents, file);
+    }
+    // Staging alone does not switch versions; activateVersion does
+    assert.equal(fs.existsSync(path.join(installRoot, INSTALL_STATE_FILE)), false);
+});
+
+test('refuses a manifest signed with a key the build does not embed', async () => {
+    const { manifestBytes, signature } = await downloadManifest();
+
+    assert.throws(() => verifyManifest(manifestBytes, signature), UpdateVerificationError);
+});
+
+test('refuses a manifest that was changed after signing', async () => {
+    const { manifestBytes, signature } = await downloadManifest();
+    const tampered = Buffer.from(manifestBytes.toString('utf8').replace(RELEASE_VERSION, '9.9.9'));
+
+    assert.throws(() => verifyManifest(tampered, signature, publicKeyPem), /signature is invalid/);
+});
+
+test('refuses an archive that does not match the signed manifest', async () => {
+    const { assets, manifestBytes, signature } = await downloadManifest();
+    const manifest = verifyManifest(manifestBytes, signature, publicKeyPem);
+
+    const archiveFile = path.join(workDir, 'tampered', assets.archive.name);
+    fs.mkdirSync(path.dirname(archiveFile), { recursive: true });
+    const archive = fs.readFileSync(path.join(releaseDir, assets.archive.name));
+    archive[archive.length - 30] ^= 0xff;
+    fs.writeFileSync(archiveFile, archive);
+
+    await assert.rejects(verifyArchive(archiveFile, manifest), /SHA-256 does not match/);
+});
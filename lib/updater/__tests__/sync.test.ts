@@ -0,0 +1,93 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { INSTALL_EXCLUDES } from '../install';
+import { syncDirectory } from '../sync';
+import { makeTempDir, writeTree } from './fixtures';
+
+const workDir = makeTempDir('sync-test');
+after(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+function setup(name: string, source: Record<string, string>, target: Record<string, string>) {
+    const sourceDir = path.join(workDir, name, 'source');
+    const targetDir = path.join(workDir, name, 'target');
+    fs.mkdirSync(sourceDir, { recursive: true });
+    fs.mkdirSync(targetDir, { recursive: true });
+    writeTree(sourceDir, source);
+    writeTree(targetDir, target);
+    return { sourceDir, targetDir };
+}
+
+const read = (dir: string, relative: string) => fs.readFileSync(path.join(dir, relative), 'utf8');
+
+test('never copies .env files, data or the update working directory from a package', () => {
+    const { sourceDir, targetDir } = setup('excluded-source', {
+        'server.js': 'new',
+        '.env': 'PACKAGED=1',
+        '.env.local': 'PACKAGED=1',
+        '.env.production': 'PACKAGED=1',
+        'temp-update/leftover.zip': 'packaged',
+        'data/orbis.db': 'packaged',
+    }, {});
+
+    const result = syncDirectory(sourceDir, targetDir, { exclude: INSTALL_EXCLUDES });
+
+    assert.deepEqual(result.copied, ['server.js']);
+    for (const name of ['.env', '.env.local', '.env.production', 'temp-update', 'data']) {
+        assert.equal(fs.existsSync(path.join(targetDir, name)), false, name);
+    }
+});
+
+test('keeps .env files, data and the update working directory that only the target has', () => {
+    const { sourceDir, targetDir } = setup('excluded-target', {
+        'server.js': 'new',
+    }, {
+        'server.js': 'old',
+        '.env': 'SECRET=1',
+        '.env.local': 'SECRET=2',
+        'temp-update/orbis-1.2.0.zip': 'partial download',
+        'data/orbis.db': 'database',
+        'logs/app.log': 'log',
+    });
+
+    const result = syncDirectory(sourceDir, targetDir, { exclude: INSTALL_EXCLUDES });
+
+    assert.deepEqual(result.removed, []);
+    assert.equal(read(targetDir, 'server.js'), 'new');
+    assert.equal(read(targetDir, '.env'), 'SECRET=1');
+    assert.equal(read(targetDir, '.env.local'), 'SECRET=2');
+    assert.equal(read(targetDir, 'temp-update/orbis-1.2.0.zip'), 'partial download');
+    assert.equal(read(targetDir, 'data/orbis.db'), 'database');
+    assert.equal(read(targetDir, 'logs/app.log'), 'log');
+});
+
+test('removes files the package no longer has and skips unchanged ones', () => {
+    const { sourceDir, targetDir } = setup('stale', {
+        'server.js': 'same',
+        'public/new.txt': 'new',
+    }, {
+        'server.js': 'same',
+        'public/old.txt': 'old',
+        'legacy/module.js': 'old',
+    });
+
+    const result = syncDirectory(sourceDir, targetDir, { exclude: INSTALL_EXCLUDES });
+
+    assert.deepEqual(result.copied, ['public/new.txt']);
+    assert.deepEqual(result.removed.sort(), ['legacy', 'public/old.txt']);
+    assert.equal(result.unchanged, 1);
+    assert.equal(fs.existsSync(path.join(targetDir, 'legacy')), false);
+});
+
+// Creating a symbolic link on Windows needs developer mode or admin rights
+test('refuses a symbolic link in the source', { skip: process.platform === 'win32' }, () => {
+    const { sourceDir, targetDir } = setup('symlink', { 'server.js': 'new' }, {});
+    fs.symlinkSync('/etc/passwd', path.join(sourceDir, 'passwd'));
+
+    assert.throws(
+        () => syncDirectory(sourceDir, targetDir, { exclude: INSTALL_EXCLUDES }),
+        /Refusing to sync passwd/,
+    );
+    assert.equal(fs.existsSync(path.join(targetDir, 'passwd')), false);
+});
@@ -0,0 +1,298 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+// Update packages are read in-process so the updater does not depend on
+// PowerShell or tar being installed. Supported: .zip (stored or deflated
+// entries, as written by Compress-Archive and most zip tools) and .tar.gz
+// (ustar, pax and GNU long names). Links, devices and encrypted entries
+// are rejected, and every entry path is confined to the destination.
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export class ArchiveError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ArchiveError';
+    }
+}
+
+interface ArchiveEntry {
+    name: string;
+    type: 'file' | 'directory';
+    /** Decompressed contents; only read for files */
+    read: () => Buffer;
+}
+
+// zlib.crc32 only exists from Node 20.15/22.2, older than what the build
+// and run.bat may be using, so zip checksums are computed here
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function detectArchiveFormat(filePath: string): ArchiveFormat {
+    const header = Buffer.alloc(4);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        fs.readSync(fd, header, 0, header.length, 0);
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    if (header.readUInt32LE(0) === 0x04034b50) {
+        return 'zip';
+    }
+    if (header[0] === 0x1f && header[1] === 0x8b) {
+        return 'tar.gz';
+    }
+    throw new ArchiveError(`${path.basename(filePath)} is neither a zip nor a gzip-compressed tar archive`);
+}
+
+/**
+ * Resolve an entry name inside destDir, refusing anything that would land
+ * outside it (absolute paths, drive letters, ".." segments).
+ */
+export function resolveEntryPath(destDir: string, entryName: string): string {
+    // Windows PowerShell 5.1 writes zip entry names with backslashes
+    const name = entryName.replace(/\\/g, '/');
+    if (name.startsWith('/') || /^[a-zA-Z]:/.test(name)) {
+        throw new ArchiveError(`Archive entry has an absolute path: ${entryName}`);
+    }
+
+    const segments = name.split('/').filter(segment => segment !== '' && segment !== '.');
+    if (segments.includes('..')) {
+        throw new ArchiveError(`Archive entry escapes the destination: ${entryName}`);
+    }
+
+    // Tar archives commonly start with a "./" entry for the root itself
+    const root = path.resolve(destDir);
+    const resolved = path.resolve(root, ...segments);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+        throw new ArchiveError(`Archive entry escapes the destination: ${entryName}`);
+    }
+    return resolved;
+}
+
+/**
+ * Extract a zip or tar.gz archive into destDir. Returns the extracted file
+ * paths relative to destDir, "/"-separated.
+ */
+export function extractArchive(archivePath: string, destDir: string): string[] {
+    const format = detectArchiveFormat(archivePath);
+    const data = fs.readFileSync(archivePath);
+    const entries = format === 'zip' ? readZipEntries(data) : readTarEntries(zlib.gunzipSync(data));
+
+    fs.mkdirSync(destDir, { recursive: true });
+    const root = path.resolve(destDir);
+    const files: string[] = [];
+
+    for (const entry of entries) {
+        const target = resolveEntryPath(root, entry.name);
+        if (target === root && entry.type === 'file') {
+            throw new ArchiveError(`Archive entry has an empty path: ${entry.name}`);
+        }
+        if (entry.type === 'directory') {
+            fs.mkdirSync(target, { recursive: true });
+            continue;
+        }
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, entry.read());
+        files.push(path.relative(root, target).split(path.sep).join('/'));
+    }
+
+    return files;
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_MAX_COMMENT_LENGTH = 0xffff;
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+
+function readZipEntries(data: Buffer): ArchiveEntry[] {
+    // The end-of-central-directory record sits at the very end, followed
+    // only by an optional comment
+    let eocd = -1;
+    const searchStart = Math.max(0, data.length - 22 - ZIP_MAX_COMMENT_LENGTH);
+    for (let offset = data.length - 22; offset >= searchStart; offset--) {
+        if (data.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+            eocd = offset;
+            break;
+        }
+    }
+    if (eocd < 0) {
+        throw new ArchiveError('Zip archive has no central directory');
+    }
+
+    const entryCount = data.readUInt16LE(eocd + 10);
+    let offset = data.readUInt32LE(eocd + 16);
+    if (entryCount === 0xffff || offset === 0xffffffff) {
+        throw new ArchiveError('ZIP64 archives are not supported');
+    }
+
+    const entries: ArchiveEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (offset + 46 > data.length || data.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+            throw new ArchiveError('Zip central directory is corrupt');
+        }
+
+        const versionMadeBy = data.readUInt16LE(offset + 4);
+        const flags = data.readUInt16LE(offset + 8);
+        const method = data.readUInt16LE(offset + 10);
+        const crc = data.readUInt32LE(offset + 16);
+        const compressedSize = data.readUInt32LE(offset + 20);
+        const size = data.readUInt32LE(offset + 24);
+        const nameLength = data.readUInt16LE(offset + 28);
+        const extraLength = data.readUInt16LE(offset + 30);
+        const commentLength = data.readUInt16LE(offset + 32);
+        const externalAttributes = data.readUInt32LE(offset + 38);
+        const localHeaderOffset = data.readUInt32LE(offset + 42);
+        const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (flags & 0x1) {
+            throw new ArchiveError(`Zip entry is encrypted: ${name}`);
+        }
+
+        // Archives made on Unix carry the file mode in the upper 16 bits;
+        // some tools leave the file type bits out, which means regular file
+        const fileType = (versionMadeBy >> 8) === 3 ? (externalAttributes >>> 16) & S_IFMT : 0;
+        const isDirectory = name.endsWith('/') || name.endsWith('\\') || fileType === S_IFDIR;
+        if (fileType && !isDirectory && fileType !== S_IFREG) {
+            throw new ArchiveError(`Zip entry is not a regular file: ${name}`);
+        }
+
+        if (isDirectory) {
+            entries.push({ name, type: 'directory', read: () => Buffer.alloc(0) });
+            continue;
+        }
+        if (method !== 0 && method !== 8) {
+            throw new ArchiveError(`Zip entry uses unsupported compression method ${method}: ${name}`);
+        }
+
+        entries.push({
+            name,
+            type: 'file',
+            read: () => {
+                if (data.readUInt32LE(localHeaderOffset) !== ZIP_LOCAL_FILE_HEADER) {
+                    throw new ArchiveError(`Zip local header is corrupt: ${name}`);
+                }
+                const start = localHeaderOffset + 30
+                    + data.readUInt16LE(localHeaderOffset + 26)
+                    + data.readUInt16LE(localHeaderOffset + 28);
+                const compressed = data.subarray(start, start + compressedSize);
+                const contents = method === 8 ? zlib.inflateRawSync(compressed) : compressed;
+
+                if (contents.length !== size || crc32(contents) !== crc) {
+                    throw new ArchiveError(`Zip entry failed its CRC check: ${name}`);
+                }
+                return contents;
+            },
+        });
+    }
+
+    return entries;
+}
+
+const TAR_BLOCK_SIZE = 512;
+
+function readTarString(block: Buffer, start: number, length: number): string {
+    const field = block.subarray(start, start + length);
+    const end = field.indexOf(0);
+    return field.toString('utf8', 0, end < 0 ? field.length : end);
+}
+
+function readTarSize(block: Buffer): number {
+    if (block[124] & 0x80) {
+        throw new ArchiveError('Tar entries larger than 8 GB are not supported');
+    }
+    const size = parseInt(readTarString(block, 124, 12).trim() || '0', 8);
+    if (Number.isNaN(size)) {
+        throw new ArchiveError('Tar header has an invalid size');
+    }
+    return size;
+}
+
+function parsePaxPath(contents: Buffer): string | undefined {
+    // Records are "<length> <key>=<value>\n"
+    let offset = 0;
+    let result: string | undefined;
+    while (offset < contents.length) {
+        const space = contents.indexOf(0x20, offset);
+        const length = parseInt(contents.toString('utf8', offset, space), 10);
+        if (space < 0 || !length) {
+            break;
+        }
+        const record = contents.toString('utf8', space + 1, offset + length - 1);
+        const equals = record.indexOf('=');
+        if (record.slice(0, equals) === 'path') {
+            result = record.slice(equals + 1);
+        }
+        offset += length;
+    }
+    return result;
+}
+
+function readTarEntries(data: Buffer): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    let offset = 0;
+    let longName: string | undefined;
+
+    while (offset + TAR_BLOCK_SIZE <= data.length) {
+        const header = data.subarray(offset, offset + TAR_BLOCK_SIZE);
+        if (header.every(byte => byte === 0)) {
+            break;
+        }
+
+        const size = readTarSize(header);
+        const type = String.fromCharCode(header[156] || 0x30);
+        const contents = data.subarray(offset + TAR_BLOCK_SIZE, offset + TAR_BLOCK_SIZE + size);
+        offset += TAR_BLOCK_SIZE + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+        if (contents.length !== size) {
+            throw new ArchiveError('Tar archive is truncated');
+        }
+
+        // Extended headers name the entry that follows them
+        if (type === 'x' || type === 'L') {
+            longName = type === 'L' ? readTarString(contents, 0, contents.length) : parsePaxPath(contents) ?? longName;
+            continue;
+        }
+        if (type === 'g') {
+            continue;
+        }
+
+        const prefix = readTarString(header, 257, 6) === 'ustar' ? readTarString(header, 345, 155) : '';
+        const baseName = readTarString(header, 0, 100);
+        const name = longName ?? (prefix ? `${prefix}/${baseName}` : baseName);
+        longName = undefined;
+
+        if (type === '5') {
+            entries.push({ name, type: 'directory', read: () => Buffer.alloc(0) });
+        } else if (type === '0' || type === '7') {
+            entries.push({ name, type: 'file', read: () => contents });
+        } else {
+            throw new ArchiveError(`Tar entry is not a regular file or directory: ${name}`);
+        }
+    }
+
+    return entries;
+}
@@ -0,0 +1,121 @@
+import { DatabaseManager } from '../database';
+import { compareVersions, parseVersion } from '../semver';
+import type { Release } from './sources';
+
+export type UpdateChannel = 'stable' | 'beta' | 'nightly';
+
+export interface ChannelSettings {
+    channel: UpdateChannel;
+    /** Exact version to stay on, or null to follow the channel */
+    pinnedVersion: string | null;
+}
+
+interface ChannelDefinition {
+    description: string;
+    includes(release: Release, version: string): boolean;
+}
+
+// Tagged releases are "v<semver>"; CI publishes nightlies under a single
+// rolling "nightly" tag and marks them as pre-releases.
+const VERSION_TAG = /^v\d+\.\d+\.\d+/;
+const NIGHTLY_TAG = 'nightly';
+
+/**
+ * Each channel also receives every release of the channels above it, so a
+ * beta machine still gets a stable release that is newer than its beta.
+ */
+export const UPDATE_CHANNELS: Record<UpdateChannel, ChannelDefinition> = {
+    stable: {
+        description: 'Tagged releases only',
+        includes: (release, version) =>
+            VERSION_TAG.test(release.tag_name) && !release.prerelease && parseVersion(version)!.prerelease.length === 0,
+    },
+    beta: {
+        description: 'Tagged releases and pre-releases (beta, rc)',
+        includes: (release) => VERSION_TAG.test(release.tag_name),
+    },
+    nightly: {
+        description: 'Every build from the main branch',
+        includes: (release) => VERSION_TAG.test(release.tag_name) || release.tag_name === NIGHTLY_TAG,
+    },
+};
+
+export const DEFAULT_CHANNEL: UpdateChannel = 'stable';
+
+const CHANNEL_SETTING = 'updater_channel';
+const PINNED_VERSION_SETTING = 'updater_pinned_version';
+
+export function isUpdateChannel(value: unknown): value is UpdateChannel {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(UPDATE_CHANNELS, value);
+}
+
+/**
+ * Version of a release, taken from its name, e.g.
+ * "Orbis Ship v1.2.0" -> "1.2.0" or "Orbis Ship Nightly (v1.2.0-nightly.42)" -> "1.2.0-nightly.42",
+ * falling back to the tag name.
+ */
+export function getReleaseVersion(release: Release): string | null {
+    const nameMatch = release.name?.match(/v?([0-9]+\.[0-9]+\.[0-9]+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)\)?\s*$/);
+    return parseVersion(nameMatch?.[1])?.version ?? parseVersion(release.tag_name)?.version ?? null;
+}
+
+/**
+ * The release an install on this channel should be running: the pinned
+ * version if one is set, otherwise the highest version on the channel.
+ */
+export function selectRelease(releases: Release[], settings: ChannelSettings): Release | null {
+    let selected: { release: Release; version: string } | null = null;
+
+    for (const release of releases) {
+        const version = getReleaseVersion(release);
+        if (release.draft || !version) {
+            continue;
+        }
+
+        if (settings.pinnedVersion) {
+            if (compareVersions(version, settings.pinnedVersion) === 0) {
+                return release;
+            }
+            continue;
+        }
+
+        if (!UPDATE_CHANNELS[settings.channel].includes(release, version)) {
+            continue;
+        }
+        if (!selected || compareVersions(version, selected.version) > 0) {
+            selected = { release, version };
+        }
+    }
+
+    return selected?.release ?? null;
+}
+
+export async function getChannelSettings(): Promise<ChannelSettings> {
+    const database = DatabaseManager.getInstance();
+    const channel = await database.getSystemSetting(CHANNEL_SETTING);
+    const pinnedVersion = await database.getSystemSetting(PINNED_VERSION_SETTING);
+
+    return {
+        channel: isUpdateChannel(channel) ? channel : DEFAULT_CHANNEL,
+        pinnedVersion: pinnedVersion || null,
+    };
+}
+
+export async function saveChannelSettings(settings: ChannelSettings): Promise<void> {
+    if (!isUpdateChannel(settings.channel)) {
+        throw new Error(`Unknown update channel: ${settings.channel}`);
+    }
+    if (settings.pinnedVersion && !parseVersion(settings.pinnedVersion)) {
+        throw new Error(`Invalid pinned version: ${settings.pinnedVersion}`);
+    }
+
+    const database = DatabaseManager.getInstance();
+    await database.setSystemSetting(CHANNEL_SETTING, settings.channel, 'Release channel the updater follows');
+
+    if (settings.pinnedVersion) {
+        const normalized = parseVersion(settings.pinnedVersion)!.version;
+        await database.setSystemSetting(PINNED_VERSION_SETTING, normalized, 'Exact version the updater is pinned to');
+    } else {
+        await database.deleteSystemSetting(PINNED_VERSION_SETTING);
+    }
+}
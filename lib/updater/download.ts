@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import { pipeline } from 'stream/promises';
+import type { ReleaseAsset, UpdateSource } from './sources';
+
+export interface DownloadOptions {
+    /** Size the finished file must have (from the signed manifest) */
+    expectedSize: number;
+    signal?: AbortSignal;
+    onProgress?: (bytes: number, total: number) => void;
+    /** Attempts after a dropped connection, each resuming where the last stopped */
+    retries?: number;
+}
+
+const RETRY_DELAY_MS = 2000;
+
+/**
+ * Download an asset to destination via destination.part. A .part file left
+ * by an interrupted or cancelled run is resumed rather than started over;
+ * callers verify the finished file's hash and delete it on mismatch.
+ */
+export async function downloadAsset(
+    source: UpdateSource,
+    asset: ReleaseAsset,
+    destination: string,
+    options: DownloadOptions,
+): Promise<void> {
+    const partialPath = `${destination}.part`;
+    const retries = options.retries ?? 3;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const existing = fs.existsSync(partialPath) ? fs.statSync(partialPath).size : 0;
+            if (existing > options.expectedSize) {
+                fs.rmSync(partialPath, { force: true });
+                continue;
+            }
+            if (existing < options.expectedSize) {
+                await downloadRange(source, asset, partialPath, existing, options);
+            }
+
+            fs.renameSync(partialPath, destination);
+            return;
+        } catch (error) {
+            if (options.signal?.aborted || attempt >= retries) {
+                throw error;
+            }
+            await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+        }
+    }
+}
+
+async function downloadRange(
+    source: UpdateSource,
+    asset: ReleaseAsset,
+    partialPath: string,
+    offset: number,
+    options: DownloadOptions,
+): Promise<void> {
+    const stream = await source.open(asset, { offset, signal: options.signal });
+    let bytes = stream.offset;
+    options.onProgress?.(bytes, options.expectedSize);
+
+    await pipeline(
+        stream.body,
+        async function* (chunks: AsyncIterable<Uint8Array>) {
+            for await (const chunk of chunks) {
+                bytes += chunk.length;
+                options.onProgress?.(bytes, options.expectedSize);
+                yield chunk;
+            }
+        },
+        // A source that could not resume sends the whole file again
+        fs.createWriteStream(partialPath, { flags: stream.offset > 0 ? 'a' : 'w' }),
+        { signal: options.signal },
+    );
+
+    if (bytes !== options.expectedSize) {
+        throw new Error(`Download of ${asset.name} ended at ${bytes} of ${options.expectedSize} bytes`);
+    }
+}
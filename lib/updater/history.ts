@@ -0,0 +1,131 @@
+import { DatabaseManager } from '../database';
+
+export type UpdateHistoryEvent = 'check' | 'download' | 'install' | 'rollback';
+export type UpdateHistoryOutcome = 'succeeded' | 'failed' | 'cancelled';
+
+/** Who started an action when no user did */
+export const SCHEDULER_INITIATOR = 'scheduler';
+export const SUPERVISOR_INITIATOR = 'supervisor';
+
+export interface UpdateHistoryEntry {
+    id: number;
+    event: UpdateHistoryEvent;
+    outcome: UpdateHistoryOutcome;
+    fromVersion: string | null;
+    toVersion: string | null;
+    durationMs: number | null;
+    message: string | null;
+    error: string | null;
+    /** Username, or 'scheduler' / 'supervisor' for unattended actions */
+    initiatedBy: string;
+    jobId: string | null;
+    createdAt: string;
+}
+
+export interface NewUpdateHistoryEntry {
+    event: UpdateHistoryEvent;
+    outcome: UpdateHistoryOutcome;
+    initiatedBy: string;
+    fromVersion?: string | null;
+    toVersion?: string | null;
+    durationMs?: number | null;
+    message?: string | null;
+    error?: string | null;
+    jobId?: string | null;
+}
+
+export interface UpdateHistoryQuery {
+    limit?: number;
+    /** Only entries older than this id, for paging back through the timeline */
+    before?: number;
+    event?: UpdateHistoryEvent;
+}
+
+export const UPDATE_HISTORY_EVENTS: UpdateHistoryEvent[] = ['check', 'download', 'install', 'rollback'];
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+
+// Background checks run around the clock; only the most recent are worth keeping
+const CHECK_RETENTION = 500;
+
+interface UpdateHistoryRow {
+    id: number;
+    event: UpdateHistoryEvent;
+    outcome: UpdateHistoryOutcome;
+    from_version: string | null;
+    to_version: string | null;
+    duration_ms: number | null;
+    message: string | null;
+    error: string | null;
+    initiated_by: string;
+    job_id: string | null;
+    created_at: string;
+}
+
+export function isUpdateHistoryEvent(value: unknown): value is UpdateHistoryEvent {
+    return typeof value === 'string' && (UPDATE_HISTORY_EVENTS as string[]).includes(value);
+}
+
+export async function recordUpdateHistory(entry: NewUpdateHistoryEntry): Promise<void> {
+    const database = DatabaseManager.getInstance();
+    await database.executeQuery(
+        `INSERT INTO update_history (event, outcome, from_version, to_version, duration_ms, message, error, initiated_by, job_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            entry.event,
+            entry.outcome,
+            entry.fromVersion ?? null,
+            entry.toVersion ?? null,
+            typeof entry.durationMs === 'number' ? Math.round(entry.durationMs) : null,
+            entry.message ?? null,
+            entry.error ?? null,
+            entry.initiatedBy,
+            entry.jobId ?? null,
+            new Date().toISOString(),
+        ],
+    );
+
+    if (entry.event === 'check') {
+        await database.executeQuery(
+            `DELETE FROM update_history WHERE event = 'check' AND id NOT IN
+             (SELECT id FROM update_history WHERE event = 'check' ORDER BY id DESC LIMIT ?)`,
+            [CHECK_RETENTION],
+        );
+    }
+}
+
+/** Newest first */
+export async function getUpdateHistory(query: UpdateHistoryQuery = {}): Promise<UpdateHistoryEntry[]> {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT);
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.before !== undefined) {
+        conditions.push('id < ?');
+        params.push(query.before);
+    }
+    if (query.event) {
+        conditions.push('event = ?');
+        params.push(query.event);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await DatabaseManager.getInstance().executeQuery(
+        `SELECT * FROM update_history ${where} ORDER BY id DESC LIMIT ?`,
+        [...params, limit],
+    ) as UpdateHistoryRow[];
+
+    return rows.map(row => ({
+        id: row.id,
+        event: row.event,
+        outcome: row.outcome,
+        fromVersion: row.from_version,
+        toVersion: row.to_version,
+        durationMs: row.duration_ms,
+        message: row.message,
+        error: row.error,
+        initiatedBy: row.initiated_by,
+        jobId: row.job_id,
+        createdAt: row.created_at,
+    }));
+}
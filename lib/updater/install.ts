@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseVersion } from '../semver';
+import { syncDirectory } from './sync';
+import { createLogger } from '../logger';
+
+const logger = createLogger('updater:install');
+
+// Install layout, rooted where run.bat lives:
+//
+//   run.bat, supervisor.mjs  launcher; started once, never replaced by updates
+//   install-state.json       which version is current (the "current" pointer)
+//   versions/<version>/      one complete release per directory
+//
+// A fresh install extracted straight into the root is a "flat" install whose
+// path is "."; it becomes the rollback target after the first update.
+// builder/supervisor.mjs reads the same file - keep the two in step.
+
+export const INSTALL_STATE_FILE = 'install-state.json';
+/** Exit code that tells the supervisor to restart the (new) current version */
+export const RESTART_EXIT_CODE = 75;
+const VERSIONS_DIR = 'versions';
+const FLAT_INSTALL_PATH = '.';
+
+/**
+ * Never taken from a package: operator configuration, user data and the
+ * updater's own working directory.
+ */
+export const INSTALL_EXCLUDES = ['.env', '.env.*', 'data', 'logs', '*.db', '*.db-wal', '*.db-shm', 'temp-update'];
+
+export type InstallStatus = 'pending' | 'healthy' | 'rolled-back';
+
+export interface InstalledVersion {
+    version: string;
+    /** Directory relative to the install root, "/"-separated */
+    path: string;
+    /** Database schema version this release was running against */
+    schemaVersion?: number;
+}
+
+export interface RestorePoint {
+    /** Pre-update snapshot, encrypted with the database key so it can be copied back as-is */
+    backupPath: string;
+    databasePath: string;
+}
+
+export interface InstallState {
+    formatVersion: 1;
+    current: InstalledVersion;
+    previous: InstalledVersion | null;
+    /** "pending" until the supervisor sees the current version pass its health check */
+    status: InstallStatus;
+    updatedAt: string;
+    /** Snapshot the supervisor restores if it has to roll a pending update back */
+    restorePoint?: RestorePoint;
+    /** Version that failed its post-update health check */
+    failedVersion?: string;
+    message?: string;
+}
+
+export class InstallError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InstallError';
+    }
+}
+
+/**
+ * Install root passed down by the supervisor, or null when the server was
+ * started some other way (next dev, next start, an old run.bat). Updates
+ * are only installed under the supervisor, which is what restarts the app.
+ */
+export function getInstallRoot(): string | null {
+    return process.env.ORBIS_INSTALL_ROOT ? path.resolve(process.env.ORBIS_INSTALL_ROOT) : null;
+}
+
+export function readInstallState(root: string, runningVersion: string | null): InstallState {
+    const filePath = path.join(root, INSTALL_STATE_FILE);
+    if (!fs.existsSync(filePath)) {
+        return {
+            formatVersion: 1,
+            current: { version: runningVersion ?? 'unknown', path: FLAT_INSTALL_PATH },
+            previous: null,
+            status: 'healthy',
+            updatedAt: new Date().toISOString(),
+        };
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as InstallState;
+}
+
+/**
+ * Write-then-rename, so the supervisor never sees a half-written pointer.
+ */
+export function writeInstallState(root: string, state: InstallState): void {
+    const filePath = path.join(root, INSTALL_STATE_FILE);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tempPath, filePath);
+}
+
+function resolveVersionDir(root: string, version: InstalledVersion): string {
+    return path.resolve(root, ...version.path.split('/'));
+}
+
+/**
+ * Copy a verified package into versions/<version>. The copy is made under
+ * a staging name and renamed into place, so a half-copied release is never
+ * mistaken for a complete one.
+ */
+export function stageVersion(root: string, sourceDir: string, version: string, runningVersion: string | null): InstalledVersion {
+    if (!parseVersion(version)) {
+        throw new InstallError(`Refusing to install invalid version "${version}"`);
+    }
+
+    const installed: InstalledVersion = { version, path: `${VERSIONS_DIR}/${version}` };
+    const state = readInstallState(root, runningVersion);
+    if (state.current.path === installed.path) {
+        throw new InstallError(`v${version} is the version currently running`);
+    }
+
+    const target = resolveVersionDir(root, installed);
+    const staging = `${target}.staging`;
+
+    fs.rmSync(staging, { recursive: true, force: true });
+    const { copied } = syncDirectory(sourceDir, staging, { exclude: INSTALL_EXCLUDES });
+
+    if (!fs.existsSync(path.join(staging, '.next', 'standalone', 'server.js'))) {
+        fs.rmSync(staging, { recursive: true, force: true });
+        throw new InstallError('Update package does not contain .next/standalone/server.js');
+    }
+
+    fs.rmSync(target, { recursive: true, force: true });
+    fs.renameSync(staging, target);
+    logger.info('Staged release', { version, dir: target, files: copied.length });
+
+    return installed;
+}
+
+/**
+ * Point "current" at a staged version and keep the running one as the
+ * rollback target. The new version starts out "pending" until the
+ * supervisor sees it pass its health check.
+ */
+export function activateVersion(
+    root: string,
+    installed: InstalledVersion,
+    options: { runningVersion: string | null; schemaVersion: number; restorePoint?: RestorePoint },
+): InstallState {
+    const state = readInstallState(root, options.runningVersion);
+    const next: InstallState = {
+        formatVersion: 1,
+        current: installed,
+        previous: { ...state.current, schemaVersion: options.schemaVersion },
+        status: 'pending',
+        updatedAt: new Date().toISOString(),
+        restorePoint: options.restorePoint,
+    };
+
+    writeInstallState(root, next);
+    pruneVersions(root, next);
+    logger.info('Activated release', { version: installed.version, previous: next.previous?.version });
+    return next;
+}
+
+/**
+ * The version a rollback would switch to, checked to still be on disk.
+ */
+export function getRollbackTarget(root: string, runningVersion: string | null): InstalledVersion {
+    const { previous } = readInstallState(root, runningVersion);
+    if (!previous) {
+        throw new InstallError('No previous version is installed to roll back to');
+    }
+    if (!fs.existsSync(path.join(resolveVersionDir(root, previous), '.next', 'standalone', 'server.js'))) {
+        throw new InstallError(`Previous version v${previous.version} is no longer on disk`);
+    }
+    return previous;
+}
+
+/**
+ * Swap current and previous. The caller is responsible for bringing the
+ * database schema back to previous.schemaVersion first.
+ */
+export function rollbackVersion(root: string, runningVersion: string | null): InstallState {
+    const state = readInstallState(root, runningVersion);
+    const previous = getRollbackTarget(root, runningVersion);
+
+    const next: InstallState = {
+        formatVersion: 1,
+        current: previous,
+        previous: state.current,
+        status: 'healthy',
+        updatedAt: new Date().toISOString(),
+        message: `Manually rolled back from v${state.current.version}`,
+    };
+
+    writeInstallState(root, next);
+    logger.info('Rolled back release', { from: state.current.version, to: next.current.version });
+    return next;
+}
+
+/**
+ * Remove every versions/ directory other than current and previous.
+ */
+function pruneVersions(root: string, state: InstallState): void {
+    const versionsDir = path.join(root, VERSIONS_DIR);
+    if (!fs.existsSync(versionsDir)) {
+        return;
+    }
+
+    const keep = new Set([state.current, state.previous].filter(Boolean).map(version => resolveVersionDir(root, version!)));
+    for (const entry of fs.readdirSync(versionsDir)) {
+        const dir = path.join(versionsDir, entry);
+        if (keep.has(dir)) {
+            continue;
+        }
+        try {
+            fs.rmSync(dir, { recursive: true, force: true });
+            logger.info('Removed old release', { dir });
+        } catch (error) {
+            logger.warn('Could not remove old release', { dir, error });
+        }
+    }
+}
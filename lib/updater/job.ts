@@ -0,0 +1,197 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { createLogger, type Logger } from '../logger';
+
+export type UpdatePhase =
+    | 'checking'
+    | 'downloading'
+    | 'verifying'
+    | 'extracting'
+    | 'installing'
+    | 'restarting'
+    | 'failed'
+    | 'cancelled';
+
+/** Up to here nothing outside the temp directory has been touched */
+const CANCELLABLE_PHASES: UpdatePhase[] = ['checking', 'downloading', 'verifying', 'extracting'];
+const FINISHED_PHASES: UpdatePhase[] = ['restarting', 'failed', 'cancelled'];
+const MAX_LOG_ENTRIES = 200;
+const PROGRESS_INTERVAL_MS = 250;
+
+export interface UpdateJobLogEntry {
+    time: string;
+    level: 'info' | 'warn' | 'error';
+    message: string;
+}
+
+export interface UpdateJobState {
+    id: string;
+    phase: UpdatePhase;
+    version: string | null;
+    force: boolean;
+    /** Username, or 'scheduler' for an install in the maintenance window */
+    initiatedBy: string;
+    bytesDownloaded: number;
+    bytesTotal: number | null;
+    cancellable: boolean;
+    startedAt: string;
+    finishedAt: string | null;
+    error: string | null;
+}
+
+export interface UpdateJobSnapshot extends UpdateJobState {
+    log: UpdateJobLogEntry[];
+}
+
+export type UpdateJobEvent =
+    | { type: 'state'; state: UpdateJobState }
+    | { type: 'log'; entry: UpdateJobLogEntry };
+
+export class UpdateCancelledError extends Error {
+    constructor() {
+        super('Update cancelled');
+        this.name = 'UpdateCancelledError';
+    }
+}
+
+/**
+ * One run of the update, from release check to restart. Progress and log
+ * lines are emitted as events for the progress stream; the log is also
+ * written to the application log.
+ */
+export class UpdateJob {
+    private readonly controller = new AbortController();
+    private readonly emitter = new EventEmitter();
+    private readonly logger: Logger;
+    private readonly state: UpdateJobState;
+    private readonly entries: UpdateJobLogEntry[] = [];
+    private lastProgressAt = 0;
+
+    constructor(force: boolean, initiatedBy: string) {
+        this.state = {
+            id: randomUUID(),
+            phase: 'checking',
+            version: null,
+            force,
+            initiatedBy,
+            bytesDownloaded: 0,
+            bytesTotal: null,
+            cancellable: true,
+            startedAt: new Date().toISOString(),
+            finishedAt: null,
+            error: null,
+        };
+        this.logger = createLogger('updater:job', { jobId: this.state.id });
+    }
+
+    public get id(): string {
+        return this.state.id;
+    }
+
+    public get phase(): UpdatePhase {
+        return this.state.phase;
+    }
+
+    /** Aborted when the job is cancelled; pass to downloads and check between steps */
+    public get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    public isFinished(): boolean {
+        return FINISHED_PHASES.includes(this.state.phase);
+    }
+
+    public setPhase(phase: UpdatePhase, message: string): void {
+        this.signal.throwIfAborted();
+        this.update({ phase, cancellable: CANCELLABLE_PHASES.includes(phase) });
+        this.info(message);
+    }
+
+    public setVersion(version: string): void {
+        this.update({ version });
+    }
+
+    /** Throttled, apart from the final chunk */
+    public setProgress(bytesDownloaded: number, bytesTotal: number | null): void {
+        const now = Date.now();
+        if (now - this.lastProgressAt < PROGRESS_INTERVAL_MS && bytesDownloaded !== bytesTotal) {
+            Object.assign(this.state, { bytesDownloaded, bytesTotal });
+            return;
+        }
+        this.lastProgressAt = now;
+        this.update({ bytesDownloaded, bytesTotal });
+    }
+
+    public info(message: string): void {
+        this.logger.info(message);
+        this.append('info', message);
+    }
+
+    public warn(message: string): void {
+        this.logger.warn(message);
+        this.append('warn', message);
+    }
+
+    /**
+     * Request cancellation. Refused once installing has started, since
+     * stopping half way would be worse than finishing.
+     */
+    public cancel(): boolean {
+        if (!this.state.cancellable) {
+            return false;
+        }
+        this.update({ cancellable: false });
+        this.controller.abort(new UpdateCancelledError());
+        return true;
+    }
+
+    /** Record how the job ended when the update flow throws */
+    public fail(error: unknown): void {
+        const cancelled = this.signal.aborted;
+        const message = cancelled ? 'Update cancelled' : error instanceof Error ? error.message : 'Unknown error';
+
+        if (cancelled) {
+            this.logger.info(message);
+        } else {
+            this.logger.error('Update failed', error);
+        }
+        this.append(cancelled ? 'warn' : 'error', message);
+        this.update({
+            phase: cancelled ? 'cancelled' : 'failed',
+            cancellable: false,
+            finishedAt: new Date().toISOString(),
+            error: cancelled ? null : message,
+        });
+    }
+
+    public finish(): void {
+        this.update({ cancellable: false, finishedAt: new Date().toISOString() });
+    }
+
+    public subscribe(listener: (event: UpdateJobEvent) => void): () => void {
+        this.emitter.on('event', listener);
+        return () => this.emitter.off('event', listener);
+    }
+
+    public getState(): UpdateJobState {
+        return { ...this.state };
+    }
+
+    public snapshot(): UpdateJobSnapshot {
+        return { ...this.state, log: [...this.entries] };
+    }
+
+    private update(changes: Partial<UpdateJobState>): void {
+        Object.assign(this.state, changes);
+        this.emitter.emit('event', { type: 'state', state: this.getState() } satisfies UpdateJobEvent);
+    }
+
+    private append(level: UpdateJobLogEntry['level'], message: string): void {
+        const entry = { time: new Date().toISOString(), level, message };
+        this.entries.push(entry);
+        if (this.entries.length > MAX_LOG_ENTRIES) {
+            this.entries.shift();
+        }
+        this.emitter.emit('event', { type: 'log', entry } satisfies UpdateJobEvent);
+    }
+}
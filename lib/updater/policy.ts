@@ -0,0 +1,156 @@
+import { DatabaseManager } from '../database';
+import { CronParseError, parseCron, type CronSchedule } from '../cron';
+
+export type UpdatePolicyMode = 'manual' | 'notify' | 'auto' | 'postpone';
+
+export interface UpdatePolicy {
+    mode: UpdatePolicyMode;
+    /** Cron expression for when the maintenance window opens (server local time) */
+    maintenanceWindow: string;
+    /** How long the window stays open once it opens */
+    windowMinutes: number;
+    /** With 'postpone', nothing is checked or installed before this time (ISO 8601) */
+    postponeUntil: string | null;
+}
+
+export interface MaintenanceWindow {
+    opensAt: Date;
+    closesAt: Date;
+}
+
+export class UpdatePolicyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UpdatePolicyError';
+    }
+}
+
+export const UPDATE_POLICIES: Record<UpdatePolicyMode, { description: string }> = {
+    manual: { description: 'No background checks; check and install from this page' },
+    notify: { description: 'Check in the background and offer updates, but never install unattended' },
+    auto: { description: 'Check in the background and install updates during the maintenance window' },
+    postpone: { description: 'No checks or installs until a date, then notify' },
+};
+
+export const DEFAULT_POLICY: UpdatePolicy = {
+    mode: 'notify',
+    maintenanceWindow: '0 2 * * *',
+    windowMinutes: 120,
+    postponeUntil: null,
+};
+
+export const MIN_WINDOW_MINUTES = 15;
+export const MAX_WINDOW_MINUTES = 24 * 60;
+
+const MODE_SETTING = 'updater_policy';
+const WINDOW_SETTING = 'updater_maintenance_window';
+const WINDOW_MINUTES_SETTING = 'updater_maintenance_window_minutes';
+const POSTPONE_UNTIL_SETTING = 'updater_postpone_until';
+
+const MINUTE_MS = 60 * 1000;
+
+export function isUpdatePolicyMode(value: unknown): value is UpdatePolicyMode {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(UPDATE_POLICIES, value);
+}
+
+/**
+ * Check a policy submitted by a user and normalise it. The window settings
+ * are kept whatever the mode, so switching modes does not lose them.
+ */
+export function validateUpdatePolicy(policy: UpdatePolicy, now = new Date()): UpdatePolicy {
+    if (!isUpdatePolicyMode(policy.mode)) {
+        throw new UpdatePolicyError(`Invalid policy. Supported policies: ${Object.keys(UPDATE_POLICIES).join(', ')}`);
+    }
+
+    let schedule: CronSchedule;
+    try {
+        schedule = parseCron(policy.maintenanceWindow);
+    } catch (error) {
+        throw new UpdatePolicyError(error instanceof CronParseError ? error.message : 'maintenanceWindow must be a cron expression');
+    }
+    if (!schedule.next(now)) {
+        throw new UpdatePolicyError(`Maintenance window "${schedule.expression}" never opens`);
+    }
+
+    const windowMinutes = policy.windowMinutes;
+    if (!Number.isInteger(windowMinutes) || windowMinutes < MIN_WINDOW_MINUTES || windowMinutes > MAX_WINDOW_MINUTES) {
+        throw new UpdatePolicyError(`windowMinutes must be a whole number between ${MIN_WINDOW_MINUTES} and ${MAX_WINDOW_MINUTES}`);
+    }
+
+    let postponeUntil: string | null = null;
+    if (policy.mode === 'postpone') {
+        const until = policy.postponeUntil ? new Date(policy.postponeUntil) : null;
+        if (!until || isNaN(until.getTime())) {
+            throw new UpdatePolicyError('The postpone policy requires postponeUntil, a date and time');
+        }
+        if (until <= now) {
+            throw new UpdatePolicyError('postponeUntil must be in the future');
+        }
+        postponeUntil = until.toISOString();
+    }
+
+    return { mode: policy.mode, maintenanceWindow: schedule.expression, windowMinutes, postponeUntil };
+}
+
+/** The policy in force right now: a postponement that has run out means notify */
+export function getEffectiveMode(policy: UpdatePolicy, now = new Date()): UpdatePolicyMode {
+    if (policy.mode === 'postpone' && (!policy.postponeUntil || new Date(policy.postponeUntil) <= now)) {
+        return 'notify';
+    }
+    return policy.mode;
+}
+
+/** The maintenance window open at `now`, if any */
+export function getCurrentWindow(policy: UpdatePolicy, now = new Date()): MaintenanceWindow | null {
+    const schedule = parseCron(policy.maintenanceWindow);
+    const minute = new Date(now.getTime());
+    minute.setSeconds(0, 0);
+
+    for (let elapsed = 0; elapsed < policy.windowMinutes; elapsed++) {
+        const opensAt = new Date(minute.getTime() - elapsed * MINUTE_MS);
+        if (schedule.matches(opensAt)) {
+            return { opensAt, closesAt: new Date(opensAt.getTime() + policy.windowMinutes * MINUTE_MS) };
+        }
+    }
+    return null;
+}
+
+/** The next time the maintenance window opens after `now` */
+export function getNextWindow(policy: UpdatePolicy, now = new Date()): MaintenanceWindow | null {
+    const opensAt = parseCron(policy.maintenanceWindow).next(now);
+    return opensAt ? { opensAt, closesAt: new Date(opensAt.getTime() + policy.windowMinutes * MINUTE_MS) } : null;
+}
+
+export async function getUpdatePolicy(): Promise<UpdatePolicy> {
+    const database = DatabaseManager.getInstance();
+    const mode = await database.getSystemSetting(MODE_SETTING);
+    const maintenanceWindow = await database.getSystemSetting(WINDOW_SETTING);
+    const windowMinutes = Number(await database.getSystemSetting(WINDOW_MINUTES_SETTING));
+    const postponeUntil = await database.getSystemSetting(POSTPONE_UNTIL_SETTING);
+
+    return {
+        mode: isUpdatePolicyMode(mode) ? mode : DEFAULT_POLICY.mode,
+        maintenanceWindow: maintenanceWindow || DEFAULT_POLICY.maintenanceWindow,
+        windowMinutes: Number.isInteger(windowMinutes) && windowMinutes >= MIN_WINDOW_MINUTES && windowMinutes <= MAX_WINDOW_MINUTES
+            ? windowMinutes
+            : DEFAULT_POLICY.windowMinutes,
+        postponeUntil: postponeUntil || null,
+    };
+}
+
+export async function saveUpdatePolicy(policy: UpdatePolicy): Promise<UpdatePolicy> {
+    const validated = validateUpdatePolicy(policy);
+
+    const database = DatabaseManager.getInstance();
+    await database.setSystemSetting(MODE_SETTING, validated.mode, 'When updates are checked for and installed');
+    await database.setSystemSetting(WINDOW_SETTING, validated.maintenanceWindow, 'Cron expression for when the maintenance window opens');
+    await database.setSystemSetting(WINDOW_MINUTES_SETTING, String(validated.windowMinutes), 'Length of the maintenance window in minutes');
+
+    if (validated.postponeUntil) {
+        await database.setSystemSetting(POSTPONE_UNTIL_SETTING, validated.postponeUntil, 'Updates are postponed until this time');
+    } else {
+        await database.deleteSystemSetting(POSTPONE_UNTIL_SETTING);
+    }
+
+    return validated;
+}
@@ -0,0 +1,105 @@
+import { compareVersions } from '../semver';
+import { getReleaseVersion, UPDATE_CHANNELS, type ChannelSettings } from './channels';
+import type { Release } from './sources';
+
+export interface ReleaseNotes {
+    version: string;
+    name: string | null;
+    publishedAt: string | null;
+    /** Markdown, with the updater's markers removed */
+    body: string;
+    breaking: boolean;
+    requiresMigration: boolean;
+}
+
+export interface Changelog {
+    /** Newest first */
+    releases: ReleaseNotes[];
+    /** Older intermediate releases were left out */
+    truncated: boolean;
+    breaking: boolean;
+    requiresMigration: boolean;
+}
+
+// CI writes <!-- orbis:schema-version=N --> into the notes of every build;
+// maintainers can mark a release by hand with <!-- orbis:breaking --> or
+// <!-- orbis:requires-migration -->, e.g. for a feed without CI-built notes.
+const SCHEMA_VERSION_MARKER = /<!--\s*orbis:schema-version=(\d+)\s*-->/;
+const BREAKING_MARKER = /<!--\s*orbis:breaking\s*-->/;
+const MIGRATION_MARKER = /<!--\s*orbis:requires-migration\s*-->/;
+// Also honour the usual ways of calling out breaking changes in prose
+const BREAKING_TEXT = /^#{1,6}\s*(?:\S+\s+)?breaking changes?\b|\bBREAKING[ -]CHANGES?:/im;
+const HTML_COMMENT = /<!--[\s\S]*?-->/g;
+
+const MAX_CHANGELOG_RELEASES = 20;
+
+export function isBreakingRelease(release: Release): boolean {
+    const body = release.body ?? '';
+    return BREAKING_MARKER.test(body) || BREAKING_TEXT.test(body.replace(HTML_COMMENT, ''));
+}
+
+/**
+ * Whether installing the release changes the database schema. Builds record
+ * the schema version they migrate to; anything newer than the database's
+ * current version means migrations will run on first start.
+ */
+export function releaseRequiresMigration(release: Release, currentSchemaVersion: number | null): boolean {
+    const body = release.body ?? '';
+    if (MIGRATION_MARKER.test(body)) {
+        return true;
+    }
+    const match = body.match(SCHEMA_VERSION_MARKER);
+    return !!match && currentSchemaVersion !== null && Number(match[1]) > currentSchemaVersion;
+}
+
+/**
+ * Notes of every release between the installed version (exclusive) and the
+ * offered one (inclusive), so skipping versions does not skip their changes.
+ * Intermediate releases must be on the channel; with a pinned version only
+ * releases from the stable channel fill the gap, plus the pinned one.
+ */
+export function collectChangelog(
+    releases: Release[],
+    target: Release,
+    localVersion: string,
+    settings: ChannelSettings,
+    currentSchemaVersion: number | null,
+): Changelog {
+    const targetVersion = getReleaseVersion(target);
+    const channel = settings.pinnedVersion ? UPDATE_CHANNELS.stable : UPDATE_CHANNELS[settings.channel];
+    const included = new Map<string, Release>();
+
+    for (const release of releases) {
+        const version = getReleaseVersion(release);
+        if (release.draft || !version || !targetVersion) {
+            continue;
+        }
+        if (compareVersions(version, localVersion) <= 0 || compareVersions(version, targetVersion) >= 0) {
+            continue;
+        }
+        if (channel.includes(release, version) && !included.has(version)) {
+            included.set(version, release);
+        }
+    }
+    if (targetVersion) {
+        included.set(targetVersion, target);
+    }
+
+    const sorted = [...included.entries()].sort(([a], [b]) => compareVersions(b, a));
+    const notes = sorted.map(([version, release]) => ({
+        version,
+        name: release.name ?? null,
+        publishedAt: release.published_at ?? null,
+        body: (release.body ?? '').replace(HTML_COMMENT, '').trim(),
+        breaking: isBreakingRelease(release),
+        requiresMigration: releaseRequiresMigration(release, currentSchemaVersion),
+    }));
+
+    return {
+        releases: notes.slice(0, MAX_CHANGELOG_RELEASES),
+        truncated: notes.length > MAX_CHANGELOG_RELEASES,
+        // Flags cover every skipped release, including any left out above
+        breaking: notes.some(note => note.breaking),
+        requiresMigration: notes.some(note => note.requiresMigration),
+    };
+}
@@ -0,0 +1,8 @@
+// Ed25519 public key that update manifests must be signed with. The
+// matching private key is the UPDATE_SIGNING_KEY secret used by CI.
+// To rotate, run `npm run update:keygen` and replace this value; installs
+// only accept packages signed with the key their own build embeds, so ship
+// a release signed with the old key that embeds the new one first.
+export const UPDATE_SIGNING_PUBLIC_KEY = `-----BEGIN PUBLIC KEY-----
+MCowBQYDK2VwAyEA/XoilsTW3kq8nw43eIF4lklOEuMkxxJOJw3ECp9RIHU=
+-----END PUBLIC KEY-----`;
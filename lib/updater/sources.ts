@@ -0,0 +1,282 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { isPrerelease, parseVersion } from '../semver';
+import type { AppConfig } from '../config.schema';
+
+// Where releases come from. Every source hands out releases in the shape of
+// the GitHub Releases API, so an HTTP feed can be a saved copy of
+// https://api.github.com/repos/<owner>/<name>/releases, and the signed
+// manifest check applies the same way whichever source a package came from.
+
+export interface ReleaseAsset {
+    name: string;
+    /** Absolute URL, or relative to the feed URL / local directory */
+    browser_download_url: string;
+    size?: number;
+}
+
+export interface Release {
+    name: string | null;
+    tag_name: string;
+    body: string | null;
+    draft?: boolean;
+    prerelease: boolean;
+    published_at?: string | null;
+    assets?: ReleaseAsset[];
+}
+
+export type UpdateSourceKind = 'github' | 'http' | 'local';
+
+export interface AssetStream {
+    body: AsyncIterable<Uint8Array>;
+    /** Where the body starts; 0 when the source could not resume */
+    offset: number;
+    /** Full size of the asset, when known */
+    total: number | null;
+}
+
+export interface UpdateSource {
+    readonly kind: UpdateSourceKind;
+    /** Repository, feed URL or directory, for status output and logs */
+    readonly location: string;
+    /** Whether the source can be reached right now; update checks are skipped when it cannot */
+    isReachable(): Promise<boolean>;
+    listReleases(): Promise<Release[]>;
+    /** Read a small asset (manifest, signature) into memory */
+    download(asset: ReleaseAsset, signal?: AbortSignal): Promise<Buffer>;
+    /** Stream an asset, starting at offset if the source supports it */
+    open(asset: ReleaseAsset, options: { offset: number; signal?: AbortSignal }): Promise<AssetStream>;
+}
+
+const USER_AGENT = 'orbis-ship-updater';
+const REACHABILITY_TIMEOUT_MS = 5000;
+
+async function fetchBuffer(url: string, signal?: AbortSignal): Promise<Buffer> {
+    const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT }, signal });
+    if (!response.ok) {
+        throw new Error(`Download of ${url} failed: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Ask for the rest of the file with a Range request. Servers that ignore
+ * it answer 200 with the whole file, which simply restarts the download.
+ */
+async function fetchStream(url: string, offset: number, signal?: AbortSignal): Promise<AssetStream> {
+    const headers: Record<string, string> = { 'User-Agent': USER_AGENT };
+    if (offset > 0) {
+        headers.Range = `bytes=${offset}-`;
+    }
+
+    const response = await fetch(url, { headers, signal });
+    if (!response.ok || !response.body) {
+        throw new Error(`Download of ${url} failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>);
+    const range = response.status === 206 && /^bytes (\d+)-\d+\/(\d+|\*)$/.exec(response.headers.get('content-range') ?? '');
+    if (range) {
+        return { body, offset: Number(range[1]), total: range[2] === '*' ? null : Number(range[2]) };
+    }
+
+    const length = response.headers.get('content-length');
+    return { body, offset: 0, total: length ? Number(length) : null };
+}
+
+async function fetchReleases(url: string): Promise<Release[]> {
+    const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT, Accept: 'application/json' } });
+    if (!response.ok) {
+        throw new Error(`${url} responded ${response.status}: ${response.statusText}`);
+    }
+    return parseReleaseFeed(await response.json(), url);
+}
+
+/**
+ * Any HTTP response counts as reachable; whether the releases can actually
+ * be read is the update check's problem, and is reported as such.
+ */
+async function respondsToHead(url: string): Promise<boolean> {
+    try {
+        await fetch(url, {
+            method: 'HEAD',
+            signal: AbortSignal.timeout(REACHABILITY_TIMEOUT_MS),
+            headers: { 'User-Agent': USER_AGENT, 'Cache-Control': 'no-cache' },
+        });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * A feed is a JSON array of releases, or an object with a "releases" array.
+ */
+function parseReleaseFeed(feed: unknown, location: string): Release[] {
+    const releases = Array.isArray(feed) ? feed : (feed as { releases?: unknown })?.releases;
+    if (!Array.isArray(releases)) {
+        throw new Error(`${location} is not a release feed (expected an array of releases)`);
+    }
+    return releases.filter((release): release is Release =>
+        typeof release === 'object' && release !== null && typeof release.tag_name === 'string');
+}
+
+export class GitHubReleasesSource implements UpdateSource {
+    public readonly kind = 'github';
+    public readonly location: string;
+
+    constructor(repository: string) {
+        this.location = repository;
+    }
+
+    public isReachable(): Promise<boolean> {
+        return respondsToHead('https://api.github.com');
+    }
+
+    public listReleases(): Promise<Release[]> {
+        return fetchReleases(`https://api.github.com/repos/${this.location}/releases?per_page=100`);
+    }
+
+    public download(asset: ReleaseAsset, signal?: AbortSignal): Promise<Buffer> {
+        return fetchBuffer(asset.browser_download_url, signal);
+    }
+
+    public open(asset: ReleaseAsset, options: { offset: number; signal?: AbortSignal }): Promise<AssetStream> {
+        return fetchStream(asset.browser_download_url, options.offset, options.signal);
+    }
+}
+
+/**
+ * A release feed served over HTTP(S), e.g. a mirror on the site network.
+ * Relative asset URLs are resolved against the feed URL.
+ */
+export class HttpFeedSource implements UpdateSource {
+    public readonly kind = 'http';
+
+    constructor(public readonly location: string) {}
+
+    public isReachable(): Promise<boolean> {
+        return respondsToHead(this.location);
+    }
+
+    public listReleases(): Promise<Release[]> {
+        return fetchReleases(this.location);
+    }
+
+    public download(asset: ReleaseAsset, signal?: AbortSignal): Promise<Buffer> {
+        return fetchBuffer(this.resolveUrl(asset), signal);
+    }
+
+    public open(asset: ReleaseAsset, options: { offset: number; signal?: AbortSignal }): Promise<AssetStream> {
+        return fetchStream(this.resolveUrl(asset), options.offset, options.signal);
+    }
+
+    private resolveUrl(asset: ReleaseAsset): string {
+        return new URL(asset.browser_download_url, this.location).toString();
+    }
+}
+
+const LOCAL_FEED_FILE = 'releases.json';
+const LOCAL_ARCHIVE_PATTERN = /^orbis-(.+)\.(zip|tar\.gz)$/;
+
+/**
+ * A directory or removable drive holding release files. It can carry a
+ * releases.json feed; without one, every orbis-<version>.zip (or .tar.gz)
+ * next to its .manifest.json and .manifest.json.sig is a release, with
+ * orbis-<version>.md as optional release notes.
+ */
+export class LocalDirectorySource implements UpdateSource {
+    public readonly kind = 'local';
+    public readonly location: string;
+
+    constructor(directory: string) {
+        this.location = path.resolve(directory);
+    }
+
+    public async isReachable(): Promise<boolean> {
+        try {
+            return fs.statSync(this.location).isDirectory();
+        } catch {
+            return false;
+        }
+    }
+
+    public async listReleases(): Promise<Release[]> {
+        const feedPath = path.join(this.location, LOCAL_FEED_FILE);
+        if (fs.existsSync(feedPath)) {
+            return parseReleaseFeed(JSON.parse(fs.readFileSync(feedPath, 'utf8')), feedPath);
+        }
+        return this.discoverReleases();
+    }
+
+    public async download(asset: ReleaseAsset): Promise<Buffer> {
+        return fs.readFileSync(this.resolvePath(asset));
+    }
+
+    public async open(asset: ReleaseAsset, options: { offset: number; signal?: AbortSignal }): Promise<AssetStream> {
+        const filePath = this.resolvePath(asset);
+        const total = fs.statSync(filePath).size;
+        const offset = Math.min(options.offset, total);
+        return { body: fs.createReadStream(filePath, { start: offset, signal: options.signal }), offset, total };
+    }
+
+    private resolvePath(asset: ReleaseAsset): string {
+        const filePath = path.resolve(this.location, asset.browser_download_url);
+        if (!filePath.startsWith(this.location + path.sep)) {
+            throw new Error(`Asset ${asset.name} is outside ${this.location}`);
+        }
+        return filePath;
+    }
+
+    private discoverReleases(): Release[] {
+        const files = new Set(fs.readdirSync(this.location));
+        const asset = (name: string): ReleaseAsset[] =>
+            files.has(name) ? [{ name, browser_download_url: name, size: fs.statSync(path.join(this.location, name)).size }] : [];
+
+        const releases: Release[] = [];
+        for (const file of files) {
+            const match = LOCAL_ARCHIVE_PATTERN.exec(file);
+            const version = match && parseVersion(match[1]);
+            if (!version) {
+                continue;
+            }
+
+            const base = `orbis-${match![1]}`;
+            const notesFile = path.join(this.location, `${base}.md`);
+            releases.push({
+                name: `Orbis Ship v${version.version}`,
+                tag_name: `v${version.version}`,
+                body: files.has(`${base}.md`) ? fs.readFileSync(notesFile, 'utf8') : null,
+                prerelease: isPrerelease(version.version),
+                published_at: fs.statSync(path.join(this.location, file)).mtime.toISOString(),
+                assets: [
+                    ...asset(file),
+                    ...asset(`${base}.manifest.json`),
+                    ...asset(`${base}.manifest.json.sig`),
+                ],
+            });
+        }
+        return releases;
+    }
+}
+
+export function createUpdateSource(
+    config: Pick<AppConfig, 'updaterSource' | 'updaterRepository' | 'updaterFeedUrl' | 'updaterLocalPath'>,
+): UpdateSource {
+    switch (config.updaterSource) {
+        case 'http':
+            if (!config.updaterFeedUrl) {
+                throw new Error('UPDATER_SOURCE=http requires UPDATER_FEED_URL');
+            }
+            return new HttpFeedSource(config.updaterFeedUrl);
+        case 'local':
+            if (!config.updaterLocalPath) {
+                throw new Error('UPDATER_SOURCE=local requires UPDATER_LOCAL_PATH');
+            }
+            return new LocalDirectorySource(config.updaterLocalPath);
+        default:
+            return new GitHubReleasesSource(config.updaterRepository);
+    }
+}
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface SyncOptions {
+    /**
+     * Glob patterns ("*" matches within one path segment) relative to the
+     * directory roots. A pattern without "/" matches an entry of that name
+     * at any depth. Excluded paths are neither copied from the source nor
+     * changed or removed in the target.
+     */
+    exclude?: string[];
+}
+
+export interface SyncResult {
+    copied: string[];
+    removed: string[];
+    unchanged: number;
+}
+
+function globToRegExp(pattern: string): RegExp {
+    const escaped = pattern
+        .replace(/\/+$/, '')
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*');
+    return new RegExp(`^${escaped}$`);
+}
+
+export function createExcludeMatcher(patterns: string[]): (relativePath: string) => boolean {
+    const matchers = patterns.map(pattern => ({
+        anyDepth: !pattern.replace(/\/+$/, '').includes('/'),
+        regex: globToRegExp(pattern),
+    }));
+
+    return (relativePath: string) => {
+        const segments = relativePath.split('/');
+        return matchers.some(({ anyDepth, regex }) => anyDepth
+            ? segments.some(segment => regex.test(segment))
+            : segments.some((_, i) => regex.test(segments.slice(0, i + 1).join('/'))));
+    };
+}
+
+function filesEqual(a: string, b: string): boolean {
+    const statA = fs.statSync(a);
+    const statB = fs.statSync(b);
+    return statA.size === statB.size && fs.readFileSync(a).equals(fs.readFileSync(b));
+}
+
+/**
+ * Make targetDir match sourceDir: copy new and changed files, remove files
+ * and directories the source no longer has. Symbolic links in the source
+ * are refused rather than followed.
+ */
+export function syncDirectory(sourceDir: string, targetDir: string, options: SyncOptions = {}): SyncResult {
+    const isExcluded = createExcludeMatcher(options.exclude ?? []);
+    const result: SyncResult = { copied: [], removed: [], unchanged: 0 };
+
+    const walk = (relative: string) => {
+        const source = path.join(sourceDir, relative);
+        const target = path.join(targetDir, relative);
+        fs.mkdirSync(target, { recursive: true });
+
+        const sourceEntries = fs.readdirSync(source, { withFileTypes: true });
+        const sourceNames = new Set(sourceEntries.map(entry => entry.name));
+
+        for (const entry of sourceEntries) {
+            const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+            if (isExcluded(entryRelative)) {
+                continue;
+            }
+
+            const sourcePath = path.join(source, entry.name);
+            const targetPath = path.join(target, entry.name);
+
+            if (entry.isDirectory()) {
+                if (fs.existsSync(targetPath) && !fs.lstatSync(targetPath).isDirectory()) {
+                    fs.rmSync(targetPath, { force: true });
+                }
+                walk(entryRelative);
+            } else if (entry.isFile()) {
+                if (fs.existsSync(targetPath)) {
+                    if (!fs.lstatSync(targetPath).isFile()) {
+                        fs.rmSync(targetPath, { recursive: true, force: true });
+                    } else if (filesEqual(sourcePath, targetPath)) {
+                        result.unchanged++;
+                        continue;
+                    }
+                }
+                fs.copyFileSync(sourcePath, targetPath);
+                result.copied.push(entryRelative);
+            } else {
+                throw new Error(`Refusing to sync ${entryRelative}: not a regular file or directory`);
+            }
+        }
+
+        for (const name of fs.readdirSync(target)) {
+            const entryRelative = relative ? `${relative}/${name}` : name;
+            if (sourceNames.has(name) || isExcluded(entryRelative)) {
+                continue;
+            }
+            fs.rmSync(path.join(target, name), { recursive: true, force: true });
+            result.removed.push(entryRelative);
+        }
+    };
+
+    walk('');
+    return result;
+}
@@ -0,0 +1,963 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { DatabaseManager } from '../database';
+import { backupService } from '../backup.service';
+import { envService } from '../environment.service';
+import databaseInitService from '../database-init';
+import { createLogger } from '../logger';
+import { getAppVersion } from '../app-version';
+import { compareVersions, isPrerelease, parseVersion } from '../semver';
+import { extractArchive } from './archive';
+import { downloadAsset } from './download';
+import { UpdateJob, type UpdateJobEvent, type UpdateJobSnapshot, type UpdatePhase } from './job';
+import { recordUpdateHistory, SCHEDULER_INITIATOR, SUPERVISOR_INITIATOR, type NewUpdateHistoryEntry } from './history';
+import {
+    activateVersion,
+    getInstallRoot,
+    getRollbackTarget,
+    readInstallState,
+    RESTART_EXIT_CODE,
+    rollbackVersion,
+    stageVersion,
+    type InstallState,
+} from './install';
+import {
+    getManifestAssetName,
+    getSignatureAssetName,
+    UpdateVerificationError,
+    verifyArchive,
+    verifyExtractedFiles,
+    verifyManifest,
+    type UpdateManifest,
+} from './verification';
+import {
+    getChannelSettings,
+    getReleaseVersion,
+    saveChannelSettings,
+    selectRelease,
+    UPDATE_CHANNELS,
+    type ChannelSettings,
+    type UpdateChannel,
+} from './channels';
+import { createUpdateSource, type Release, type UpdateSource, type UpdateSourceKind } from './sources';
+import { collectChangelog, type ReleaseNotes } from './release-notes';
+import {
+    DEFAULT_POLICY,
+    getCurrentWindow,
+    getEffectiveMode,
+    getNextWindow,
+    getUpdatePolicy,
+    saveUpdatePolicy,
+    UPDATE_POLICIES,
+    type UpdatePolicy,
+    type UpdatePolicyMode,
+} from './policy';
+
+const logger = createLogger('updater');
+
+// Why an update is (or is not) being offered
+export type UpdateReason =
+    | 'not-checked'
+    | 'update-available'
+    | 'up-to-date'
+    | 'downgrade'
+    | 'prerelease'
+    | 'stepped-upgrade-required'
+    | 'unknown-version'
+    | 'offline'
+    | 'check-failed';
+
+export interface UpdateInfo {
+    updateAvailable: boolean;
+    localVersion: string | null;
+    latestVersion: string | null;
+    lastCheck: string;
+    releaseName?: string;
+    /** Every release from the installed version up to the latest, newest first */
+    releaseNotes: ReleaseNotes[];
+    releaseNotesTruncated: boolean;
+    /** Any of those releases is marked as breaking */
+    breakingChanges: boolean;
+    /** Installing migrates the database schema */
+    requiresMigration: boolean;
+    reason: UpdateReason;
+    reasonMessage: string;
+    /** Oldest installed version the release can upgrade from directly */
+    minimumSupportedVersion: string | null;
+    requiresSteppedUpgrade: boolean;
+    channel: UpdateChannel | null;
+    pinnedVersion: string | null;
+    error?: string;
+}
+
+export interface ScheduledAction {
+    /** 'install' checks as well, and installs if the maintenance window is open */
+    action: 'check' | 'install';
+    at: string;
+}
+
+export interface UpdaterStatus {
+    isRunning: boolean;
+    localVersion: string | null;
+    source: { kind: UpdateSourceKind; location: string } | null;
+    lastCheck: string | null;
+    updateAvailable: boolean;
+    latestVersion: string | null;
+    releaseName?: string;
+    releaseNotes: ReleaseNotes[];
+    releaseNotesTruncated: boolean;
+    breakingChanges: boolean;
+    requiresMigration: boolean;
+    reason: UpdateReason;
+    reasonMessage: string;
+    minimumSupportedVersion: string | null;
+    requiresSteppedUpgrade: boolean;
+    channel: UpdateChannel;
+    pinnedVersion: string | null;
+    channels: { id: UpdateChannel; description: string }[];
+    /** Installed versions, or null when not running under the supervisor */
+    install: InstallState | null;
+    /** The running or most recent update job */
+    job: UpdateJobSnapshot | null;
+    policy: UpdatePolicy;
+    /** The policy in force now; a postponement that has run out reads as notify */
+    effectivePolicy: UpdatePolicyMode;
+    policies: { id: UpdatePolicyMode; description: string }[];
+    /** The open or next maintenance window, under the auto policy */
+    maintenanceWindow: { opensAt: string; closesAt: string; open: boolean } | null;
+    /** What the background updater does next, or null when it is stopped or manual */
+    nextAction: ScheduledAction | null;
+}
+
+export type ReleaseEvaluation = Pick<UpdateInfo,
+    'updateAvailable' | 'latestVersion' | 'reason' | 'reasonMessage' | 'minimumSupportedVersion' | 'requiresSteppedUpgrade'>;
+
+export class UpdateInProgressError extends Error {
+    constructor() {
+        super('An update is already in progress');
+        this.name = 'UpdateInProgressError';
+    }
+}
+
+// Releases built by CI carry this marker in their notes, e.g.
+// <!-- orbis:minimum-supported-version=0.0.5 -->
+const MINIMUM_VERSION_MARKER = /<!--\s*orbis:minimum-supported-version=v?(\S+?)\s*-->/;
+const TEMP_DIR_NAME = 'temp-update';
+const NO_RELEASE_NOTES: Pick<UpdateInfo, 'releaseNotes' | 'releaseNotesTruncated' | 'breakingChanges' | 'requiresMigration'> = {
+    releaseNotes: [],
+    releaseNotesTruncated: false,
+    breakingChanges: false,
+    requiresMigration: false,
+};
+// updatedAt of the last install state whose outcome went into the history
+const RECORDED_INSTALL_STATE_SETTING = 'updater_history_install_state';
+const MINUTE_MS = 60 * 1000;
+// setTimeout fires immediately for delays over 2^31 - 1 ms (about 24 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+function getMinimumSupportedVersion(release: Release): string | null {
+    const match = release.body?.match(MINIMUM_VERSION_MARKER);
+    return match ? parseVersion(match[1])?.version ?? null : null;
+}
+
+/**
+ * Decide whether a release should be offered as an upgrade from the
+ * installed version. Only a strictly newer release is ever offered;
+ * pre-releases are only offered on the beta and nightly channels, to a
+ * pinned version, or to installs already on a pre-release.
+ */
+export function evaluateRelease(localVersion: string | null, release: Release, settings: ChannelSettings): ReleaseEvaluation {
+    const latestVersion = getReleaseVersion(release);
+    const minimumSupportedVersion = getMinimumSupportedVersion(release);
+    const result = (reason: UpdateReason, reasonMessage: string, requiresSteppedUpgrade = false): ReleaseEvaluation => ({
+        updateAvailable: reason === 'update-available',
+        latestVersion,
+        reason,
+        reasonMessage,
+        minimumSupportedVersion,
+        requiresSteppedUpgrade,
+    });
+
+    if (!latestVersion) {
+        return result('unknown-version', `Could not determine a version from release "${release.name ?? release.tag_name}"`);
+    }
+    if (!localVersion || !parseVersion(localVersion)) {
+        return result('unknown-version', `Installed version "${localVersion ?? 'unknown'}" is not a valid version`);
+    }
+
+    const comparison = compareVersions(latestVersion, localVersion);
+    if (comparison === 0) {
+        return result('up-to-date', settings.pinnedVersion
+            ? `Pinned to v${settings.pinnedVersion}`
+            : `v${localVersion} is the latest version on the ${settings.channel} channel`);
+    }
+    if (comparison < 0) {
+        return result('downgrade', `Latest release v${latestVersion} is older than the installed v${localVersion}; downgrades are only installed when forced`);
+    }
+    const allowPrerelease = settings.channel !== 'stable' || !!settings.pinnedVersion || isPrerelease(localVersion);
+    if ((isPrerelease(latestVersion) || release.prerelease) && !allowPrerelease) {
+        return result('prerelease', `v${latestVersion} is a pre-release and is not offered on the stable channel`);
+    }
+    if (minimumSupportedVersion && compareVersions(localVersion, minimumSupportedVersion) < 0) {
+        return result(
+            'stepped-upgrade-required',
+            `v${localVersion} is too old to upgrade directly to v${latestVersion}; install v${minimumSupportedVersion} or later first`,
+            true,
+        );
+    }
+
+    return result('update-available', `v${latestVersion} is available (installed: v${localVersion})`);
+}
+
+/**
+ * The release archive for this version, plus its signed manifest. Releases
+ * without a manifest and signature are never installed.
+ */
+export function findReleaseAssets(release: Release, version: string) {
+    const assets = release.assets || [];
+    const archiveAssets = assets.filter(asset => /\.(zip|tar\.gz)$/i.test(asset.name));
+    const archive = archiveAssets.find(asset => asset.name === `orbis-${version}.zip` || asset.name === `orbis-${version}.tar.gz`)
+        ?? (archiveAssets.length === 1 ? archiveAssets[0] : undefined);
+
+    if (!archive) {
+        throw new Error(archiveAssets.length === 0 ? 'No .zip or .tar.gz asset found in release' : `No orbis-${version} archive found in release`);
+    }
+
+    const manifest = assets.find(asset => asset.name === getManifestAssetName(archive.name));
+    const signature = assets.find(asset => asset.name === getSignatureAssetName(archive.name));
+    if (!manifest || !signature) {
+        throw new UpdateVerificationError(`Release has no signed manifest for ${archive.name}; refusing to install an unverified package`);
+    }
+
+    return { archive, manifest, signature };
+}
+
+function requireInstallRoot(): string {
+    const installRoot = getInstallRoot();
+    if (!installRoot) {
+        throw new Error('Updates can only be installed when the application is started by run.bat with supervisor.mjs; reinstall from the latest release package');
+    }
+    return installRoot;
+}
+
+/**
+ * Checks for, downloads and installs releases. Installs run as an
+ * UpdateJob in the background; its progress is published to subscribers
+ * (the progress stream) and kept for the status endpoint.
+ */
+export class UpdaterService {
+    private static instance: UpdaterService;
+    private readonly emitter = new EventEmitter();
+    private isRunning = false;
+    private initialized = false;
+    private scheduleTimer: NodeJS.Timeout | null = null;
+    private scheduleGeneration = 0;
+    private nextAction: ScheduledAction | null = null;
+    private currentJob: UpdateJob | null = null;
+    private lastUpdateInfo: UpdateInfo = {
+        updateAvailable: false,
+        localVersion: null,
+        latestVersion: null,
+        lastCheck: new Date().toISOString(),
+        ...NO_RELEASE_NOTES,
+        reason: 'not-checked',
+        reasonMessage: 'No update check has run yet',
+        minimumSupportedVersion: null,
+        requiresSteppedUpgrade: false,
+        channel: null,
+        pinnedVersion: null,
+    };
+
+    private constructor() {
+        // One listener per open progress stream; any number of tabs may watch
+        this.emitter.setMaxListeners(0);
+
+        // Apply a changed check interval to the running background updater
+        envService.onChange((changes) => {
+            if (this.isRunning && changes.some(change => change.key === 'updaterCheckIntervalMinutes' || change.key === 'updaterCheckJitterMinutes')) {
+                this.reschedule();
+            }
+        });
+    }
+
+    public static getInstance(): UpdaterService {
+        if (!UpdaterService.instance) {
+            UpdaterService.instance = new UpdaterService();
+        }
+        return UpdaterService.instance;
+    }
+
+    /**
+     * Start background checks once per process, unless UPDATER_ENABLED is off.
+     */
+    public initialize(): void {
+        if (this.initialized) {
+            return;
+        }
+        this.initialized = true;
+        this.recordSupervisorRollback().catch(error => logger.error('Failed to record supervisor rollback', error));
+
+        if (envService.getConfig().updaterEnabled && !this.isRunning) {
+            this.start();
+            logger.info('Auto-updater initialized');
+        }
+    }
+
+    public start(): void {
+        this.isRunning = true;
+        this.reschedule(true);
+        logger.info('Background updater started');
+    }
+
+    public stop(): void {
+        this.isRunning = false;
+        this.clearSchedule();
+        logger.info('Background updater stopped');
+    }
+
+    public getUpdateInfo(): UpdateInfo {
+        return this.lastUpdateInfo;
+    }
+
+    public getCurrentJob(): UpdateJob | null {
+        return this.currentJob;
+    }
+
+    public async getStatus(): Promise<UpdaterStatus> {
+        const settings = await this.loadChannelSettings();
+        const policy = await getUpdatePolicy();
+        const effectivePolicy = getEffectiveMode(policy);
+        const installRoot = getInstallRoot();
+        const info = this.lastUpdateInfo;
+
+        return {
+            isRunning: this.isRunning,
+            localVersion: getAppVersion(),
+            source: this.describeSource(),
+            lastCheck: info.lastCheck,
+            updateAvailable: info.updateAvailable,
+            latestVersion: info.latestVersion,
+            releaseName: info.releaseName,
+            releaseNotes: info.releaseNotes,
+            releaseNotesTruncated: info.releaseNotesTruncated,
+            breakingChanges: info.breakingChanges,
+            requiresMigration: info.requiresMigration,
+            reason: info.reason,
+            reasonMessage: info.reasonMessage,
+            minimumSupportedVersion: info.minimumSupportedVersion,
+            requiresSteppedUpgrade: info.requiresSteppedUpgrade,
+            channel: settings.channel,
+            pinnedVersion: settings.pinnedVersion,
+            channels: (Object.keys(UPDATE_CHANNELS) as UpdateChannel[]).map(id => ({ id, description: UPDATE_CHANNELS[id].description })),
+            install: installRoot ? readInstallState(installRoot, getAppVersion()) : null,
+            job: this.currentJob?.snapshot() ?? null,
+            policy,
+            effectivePolicy,
+            policies: (Object.keys(UPDATE_POLICIES) as UpdatePolicyMode[]).map(id => ({ id, description: UPDATE_POLICIES[id].description })),
+            maintenanceWindow: effectivePolicy === 'auto' ? this.describeWindow(policy) : null,
+            nextAction: this.nextAction,
+        };
+    }
+
+    public async checkForUpdates(initiatedBy = SCHEDULER_INITIATOR): Promise<void> {
+        const startedAt = Date.now();
+        try {
+            logger.debug('Checking for updates');
+
+            // Skip quietly when the source is out of reach (offline, drive not plugged in)
+            const source = this.getUpdateSource();
+            if (!await source.isReachable()) {
+                logger.info('Update source is not reachable, skipping update check', { source: source.kind, location: source.location });
+                this.recordCheckFailure('offline', `Update source ${source.location} is not reachable`);
+                await this.recordCheck(initiatedBy, startedAt);
+                return;
+            }
+
+            const settings = await this.loadChannelSettings();
+            const { release, releases } = await this.fetchChannelRelease(source, settings);
+            const localVersion = getAppVersion();
+            const evaluation = evaluateRelease(localVersion, release, settings);
+
+            logger.debug('Fetched channel release', { channel: settings.channel, pinnedVersion: settings.pinnedVersion, releaseName: release.name, localVersion, latestVersion: evaluation.latestVersion });
+
+            // Notes are only of interest for a newer release, offered or not
+            let changelog = NO_RELEASE_NOTES;
+            if (localVersion && evaluation.latestVersion && parseVersion(localVersion) && compareVersions(evaluation.latestVersion, localVersion) > 0) {
+                const { currentVersion: schemaVersion } = await DatabaseManager.getInstance().getMigrationStatus();
+                const collected = collectChangelog(releases, release, localVersion, settings, schemaVersion);
+                changelog = {
+                    releaseNotes: collected.releases,
+                    releaseNotesTruncated: collected.truncated,
+                    breakingChanges: collected.breaking,
+                    requiresMigration: collected.requiresMigration,
+                };
+            }
+
+            this.lastUpdateInfo = {
+                ...evaluation,
+                ...settings,
+                ...changelog,
+                localVersion,
+                lastCheck: new Date().toISOString(),
+                releaseName: release.name ?? undefined,
+            };
+
+            if (evaluation.updateAvailable) {
+                logger.info('Update available', { localVersion, latestVersion: evaluation.latestVersion });
+            } else if (evaluation.reason === 'up-to-date') {
+                logger.debug('Application is up-to-date', { localVersion });
+            } else {
+                logger.warn('Latest release is not offered as an update', { reason: evaluation.reason, detail: evaluation.reasonMessage });
+            }
+        } catch (error) {
+            logger.error('Update check failed', error);
+            this.recordCheckFailure('check-failed', error instanceof Error ? error.message : 'Unknown error');
+        }
+        await this.recordCheck(initiatedBy, startedAt);
+    }
+
+    public async setChannel(settings: ChannelSettings, initiatedBy: string): Promise<void> {
+        await databaseInitService.ensureInitialized();
+        await saveChannelSettings(settings);
+        logger.info('Update channel changed', { channel: settings.channel, pinnedVersion: settings.pinnedVersion, initiatedBy });
+
+        // Re-evaluate straight away so the status reflects the new channel
+        await this.checkForUpdates(initiatedBy);
+    }
+
+    public async getPolicy(): Promise<UpdatePolicy> {
+        await databaseInitService.ensureInitialized();
+        return getUpdatePolicy();
+    }
+
+    public getNextAction(): ScheduledAction | null {
+        return this.nextAction;
+    }
+
+    public async setPolicy(policy: UpdatePolicy, initiatedBy: string): Promise<UpdatePolicy> {
+        await databaseInitService.ensureInitialized();
+        const saved = await saveUpdatePolicy(policy);
+        logger.info('Update policy changed', { ...saved, initiatedBy });
+
+        if (this.isRunning) {
+            await this.reschedule();
+        }
+        return saved;
+    }
+
+    /**
+     * Start installing the latest release in the background. A release that
+     * is not offered as an update is refused; `force` only overrides the
+     * downgrade and pre-release checks and a previous failed install, never
+     * a required stepped upgrade or an unparseable version. With a
+     * `deadline`, the update gives up rather than start installing after it.
+     */
+    public startUpdate(initiatedBy: string, options: { force?: boolean; deadline?: Date } = {}): UpdateJob {
+        if (this.currentJob && !this.currentJob.isFinished()) {
+            throw new UpdateInProgressError();
+        }
+
+        const job = new UpdateJob(options.force ?? false, initiatedBy);
+        this.currentJob = job;
+        job.subscribe(event => this.emitter.emit('event', event));
+        this.emitter.emit('event', { type: 'state', state: job.getState() } satisfies UpdateJobEvent);
+
+        this.runUpdate(job, options.deadline).catch(async error => {
+            const failedPhase = job.phase;
+            job.fail(error);
+            this.lastUpdateInfo = { ...this.lastUpdateInfo, error: job.getState().error ?? undefined };
+            this.cleanupTempDir(false);
+            await this.recordJob(job, failedPhase === 'downloading' ? 'download' : 'install', failedPhase);
+        });
+
+        return job;
+    }
+
+    /**
+     * Cancel the running update. Returns false when there is none, or it
+     * is already installing.
+     */
+    public cancelUpdate(): boolean {
+        return !!this.currentJob && !this.currentJob.isFinished() && this.currentJob.cancel();
+    }
+
+    /** Progress events of whichever update job is running */
+    public subscribe(listener: (event: UpdateJobEvent) => void): () => void {
+        this.emitter.on('event', listener);
+        return () => this.emitter.off('event', listener);
+    }
+
+    /**
+     * Switch back to the previously installed version. Migrations the current
+     * version applied are rolled back first, since the previous build refuses
+     * a database with a newer schema than it knows.
+     */
+    public async rollback(initiatedBy: string): Promise<InstallState> {
+        if (this.currentJob && !this.currentJob.isFinished()) {
+            throw new UpdateInProgressError();
+        }
+
+        const startedAt = Date.now();
+        const localVersion = getAppVersion();
+        let state: InstallState;
+        try {
+            const installRoot = requireInstallRoot();
+            const previous = getRollbackTarget(installRoot, localVersion);
+
+            await databaseInitService.ensureInitialized();
+            const database = DatabaseManager.getInstance();
+            const { currentVersion } = await database.getMigrationStatus();
+            if (previous.schemaVersion !== undefined && currentVersion > previous.schemaVersion) {
+                await backupService.createBackup('pre-rollback');
+                await database.rollbackMigrations(previous.schemaVersion);
+            }
+
+            state = rollbackVersion(installRoot, localVersion);
+        } catch (error) {
+            await this.recordHistory({
+                event: 'rollback',
+                outcome: 'failed',
+                fromVersion: localVersion,
+                durationMs: Date.now() - startedAt,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                initiatedBy,
+            });
+            throw error;
+        }
+
+        await this.recordHistory({
+            event: 'rollback',
+            outcome: 'succeeded',
+            fromVersion: localVersion,
+            toVersion: state.current.version,
+            durationMs: Date.now() - startedAt,
+            message: state.message,
+            initiatedBy,
+        });
+        logger.info('Rolled back, restarting application', { version: state.current.version, initiatedBy });
+        this.scheduleRestart();
+        return state;
+    }
+
+    private async runUpdate(job: UpdateJob, deadline?: Date): Promise<void> {
+        job.info(job.getState().force ? 'Starting forced update' : 'Starting update');
+
+        const installRoot = requireInstallRoot();
+        const source = this.getUpdateSource();
+        const settings = await this.loadChannelSettings();
+        const { release } = await this.fetchChannelRelease(source, settings);
+        const localVersion = getAppVersion();
+        const evaluation = evaluateRelease(localVersion, release, settings);
+        const force = job.getState().force;
+
+        if (!evaluation.updateAvailable) {
+            const overridable = evaluation.reason === 'downgrade' || evaluation.reason === 'prerelease';
+            if (!force || !overridable) {
+                throw new Error(evaluation.reasonMessage);
+            }
+            job.warn(`Installing a release that is not offered as an update: ${evaluation.reasonMessage}`);
+        }
+        const version = evaluation.latestVersion!;
+        job.setVersion(version);
+
+        // A version the supervisor already rolled back is only retried on request
+        const { failedVersion } = readInstallState(installRoot, localVersion);
+        if (failedVersion === version && !force) {
+            throw new Error(`v${failedVersion} failed its health check after the last install and was rolled back; use force to retry`);
+        }
+
+        const { manifest, archiveFile } = await this.downloadRelease(job, source, release, version);
+
+        job.setPhase('verifying', 'Verifying package checksum');
+        await verifyArchive(archiveFile, manifest).catch(error => {
+            // A corrupt download must not be resumed next time
+            fs.rmSync(archiveFile, { force: true });
+            throw error;
+        });
+
+        job.setPhase('extracting', 'Extracting package');
+        const extractDir = path.join(this.getTempDir(), 'extracted');
+        fs.rmSync(extractDir, { recursive: true, force: true });
+        extractArchive(archiveFile, extractDir);
+        await verifyExtractedFiles(extractDir, manifest);
+        job.info(`Verified ${Object.keys(manifest.files).length} files`);
+
+        // The download is kept, so the next window only has to install it
+        if (deadline && Date.now() > deadline.getTime()) {
+            throw new Error(`The maintenance window closed at ${deadline.toISOString()} before v${version} was ready to install; it will be installed in the next window`);
+        }
+
+        // From here on the update runs to completion
+        job.setPhase('installing', 'Creating pre-update backup');
+        const database = DatabaseManager.getInstance();
+        const { currentVersion: schemaVersion } = await database.getMigrationStatus();
+        const backup = await backupService.createBackup('pre-update');
+
+        // The running version stays untouched in its own directory until the
+        // supervisor switches over, so a failed copy leaves nothing broken
+        job.info(`Installing v${version}`);
+        const installed = stageVersion(installRoot, extractDir, version, localVersion);
+        activateVersion(installRoot, installed, {
+            runningVersion: localVersion,
+            schemaVersion,
+            // A snapshot under the backup key cannot be copied back without this build
+            restorePoint: backup.encryptedWith === 'database-key'
+                ? { backupPath: path.join(backupService.getBackupDirectory(), backup.fileName), databasePath: database.getDbPath() }
+                : undefined,
+        });
+        this.cleanupTempDir(true);
+
+        job.setPhase('restarting', `v${version} installed, restarting application`);
+        job.finish();
+        await this.recordJob(job, 'install', 'restarting');
+        this.scheduleRestart();
+    }
+
+    /**
+     * Fetch and check the signed manifest, then download the archive into
+     * the temp directory. A partial download from an earlier, interrupted
+     * run of the same package is resumed, and a complete one is reused.
+     */
+    private async downloadRelease(
+        job: UpdateJob,
+        source: UpdateSource,
+        release: Release,
+        version: string,
+    ): Promise<{ manifest: UpdateManifest; archiveFile: string }> {
+        const assets = findReleaseAssets(release, version);
+
+        job.setPhase('downloading', `Downloading signed manifest for v${version} from ${source.location}`);
+        const manifest = verifyManifest(
+            await source.download(assets.manifest, job.signal),
+            (await source.download(assets.signature, job.signal)).toString('utf8'),
+        );
+        if (manifest.version !== version || manifest.archive.name !== assets.archive.name) {
+            throw new UpdateVerificationError(`Signed manifest is for ${manifest.archive.name} v${manifest.version}, not ${assets.archive.name} v${version}`);
+        }
+
+        const downloadDir = path.join(this.getTempDir(), 'downloads');
+        fs.mkdirSync(downloadDir, { recursive: true });
+        // Drop partial downloads of other packages
+        for (const file of fs.readdirSync(downloadDir)) {
+            if (file !== assets.archive.name && file !== `${assets.archive.name}.part`) {
+                fs.rmSync(path.join(downloadDir, file), { force: true });
+            }
+        }
+
+        const archiveFile = path.join(downloadDir, assets.archive.name);
+        // Left by a run that got past the download, e.g. one deferred to the
+        // next maintenance window; the checksum is verified after this either way
+        if (fs.existsSync(archiveFile) && fs.statSync(archiveFile).size === manifest.archive.size) {
+            job.info(`Using the already downloaded ${assets.archive.name}`);
+            return { manifest, archiveFile };
+        }
+        if (fs.existsSync(`${archiveFile}.part`)) {
+            job.info(`Resuming download of ${assets.archive.name}`);
+        } else {
+            job.info(`Downloading ${assets.archive.name} (${manifest.archive.size} bytes)`);
+        }
+
+        const downloadStartedAt = Date.now();
+        await downloadAsset(source, assets.archive, archiveFile, {
+            expectedSize: manifest.archive.size,
+            signal: job.signal,
+            onProgress: (bytes, total) => job.setProgress(bytes, total),
+        });
+        await this.recordHistory({
+            event: 'download',
+            outcome: 'succeeded',
+            fromVersion: getAppVersion(),
+            toVersion: version,
+            durationMs: Date.now() - downloadStartedAt,
+            message: `Downloaded ${assets.archive.name} (${manifest.archive.size} bytes) from ${source.location}`,
+            initiatedBy: job.getState().initiatedBy,
+            jobId: job.id,
+        });
+        return { manifest, archiveFile };
+    }
+
+    private getTempDir(): string {
+        return path.join(process.cwd(), TEMP_DIR_NAME);
+    }
+
+    /**
+     * Remove the extracted package, and with it the downloads once they have
+     * been installed. Downloads of a failed or cancelled run are kept so the
+     * next attempt can resume them.
+     */
+    private cleanupTempDir(includeDownloads: boolean): void {
+        const target = includeDownloads ? this.getTempDir() : path.join(this.getTempDir(), 'extracted');
+        fs.rmSync(target, { recursive: true, force: true });
+    }
+
+    // Built per use so source settings apply without a restart
+    private getUpdateSource(): UpdateSource {
+        return createUpdateSource(envService.getConfig());
+    }
+
+    private describeSource(): UpdaterStatus['source'] {
+        try {
+            const { kind, location } = this.getUpdateSource();
+            return { kind, location };
+        } catch {
+            // Misconfigured source; the update check reports the reason
+            return null;
+        }
+    }
+
+    /**
+     * The release this install should be running, according to its channel
+     * or pinned version, along with every release the source lists.
+     */
+    private async fetchChannelRelease(source: UpdateSource, settings: ChannelSettings): Promise<{ release: Release; releases: Release[] }> {
+        const releases = await source.listReleases();
+        const release = selectRelease(releases, settings);
+        if (!release) {
+            throw new Error(settings.pinnedVersion
+                ? `Pinned version v${settings.pinnedVersion} was not found in ${source.location}`
+                : `No release found on the ${settings.channel} channel in ${source.location}`);
+        }
+        return { release, releases };
+    }
+
+    private async loadChannelSettings(): Promise<ChannelSettings> {
+        await databaseInitService.ensureInitialized();
+        return getChannelSettings();
+    }
+
+    /**
+     * Add an entry to the update history. A history that cannot be written
+     * is logged, but never stops the update itself.
+     */
+    private async recordHistory(entry: NewUpdateHistoryEntry): Promise<void> {
+        try {
+            await databaseInitService.ensureInitialized();
+            await recordUpdateHistory(entry);
+        } catch (error) {
+            logger.error('Failed to record update history', error);
+        }
+    }
+
+    private async recordCheck(initiatedBy: string, startedAt: number): Promise<void> {
+        const info = this.lastUpdateInfo;
+        const failed = info.reason === 'offline' || info.reason === 'check-failed';
+        await this.recordHistory({
+            event: 'check',
+            outcome: failed ? 'failed' : 'succeeded',
+            fromVersion: info.localVersion,
+            toVersion: failed ? null : info.latestVersion,
+            durationMs: Date.now() - startedAt,
+            message: failed ? null : info.reasonMessage,
+            error: failed ? info.reasonMessage : null,
+            initiatedBy,
+        });
+    }
+
+    /** How an update job ended, recorded against the step it got to */
+    private async recordJob(job: UpdateJob, event: 'download' | 'install', phase: UpdatePhase): Promise<void> {
+        const state = job.getState();
+        const outcome = state.phase === 'cancelled' ? 'cancelled' : state.phase === 'failed' ? 'failed' : 'succeeded';
+        await this.recordHistory({
+            event,
+            outcome,
+            fromVersion: getAppVersion(),
+            toVersion: state.version,
+            durationMs: Date.now() - new Date(state.startedAt).getTime(),
+            message: outcome === 'succeeded' ? `Installed v${state.version}` : `Stopped while ${phase}`,
+            error: state.error,
+            initiatedBy: state.initiatedBy,
+            jobId: state.id,
+        });
+    }
+
+    /**
+     * The supervisor cannot open the encrypted database, so a rollback it
+     * made after a failed health check is recorded here, once, on the next
+     * start of the version it rolled back to.
+     */
+    private async recordSupervisorRollback(): Promise<void> {
+        const installRoot = getInstallRoot();
+        if (!installRoot) {
+            return;
+        }
+
+        const state = readInstallState(installRoot, getAppVersion());
+        await databaseInitService.ensureInitialized();
+        const database = DatabaseManager.getInstance();
+        if (state.status !== 'rolled-back' || await database.getSystemSetting(RECORDED_INSTALL_STATE_SETTING) === state.updatedAt) {
+            return;
+        }
+
+        await this.recordHistory({
+            event: 'rollback',
+            outcome: 'succeeded',
+            fromVersion: state.failedVersion ?? null,
+            toVersion: state.current.version,
+            message: state.message ?? null,
+            initiatedBy: SUPERVISOR_INITIATOR,
+        });
+        await database.setSystemSetting(RECORDED_INSTALL_STATE_SETTING, state.updatedAt, 'Last supervisor rollback recorded in the update history');
+    }
+
+    private recordCheckFailure(reason: 'offline' | 'check-failed', reasonMessage: string): void {
+        this.lastUpdateInfo = {
+            ...this.lastUpdateInfo,
+            ...NO_RELEASE_NOTES,
+            updateAvailable: false,
+            localVersion: getAppVersion(),
+            lastCheck: new Date().toISOString(),
+            reason,
+            reasonMessage,
+            error: reason === 'check-failed' ? reasonMessage : undefined,
+        };
+    }
+
+    private describeWindow(policy: UpdatePolicy): UpdaterStatus['maintenanceWindow'] {
+        const current = getCurrentWindow(policy);
+        const window = current ?? getNextWindow(policy);
+        return window
+            ? { opensAt: window.opensAt.toISOString(), closesAt: window.closesAt.toISOString(), open: !!current }
+            : null;
+    }
+
+    private clearSchedule(): void {
+        this.scheduleGeneration++;
+        if (this.scheduleTimer) {
+            clearTimeout(this.scheduleTimer);
+            this.scheduleTimer = null;
+        }
+        this.nextAction = null;
+    }
+
+    /**
+     * Work out the next background check from the policy and arm a timer for
+     * it. Every check is delayed by a random jitter so installs started
+     * together (after a power cut, say) spread out; under the auto policy the
+     * opening of the maintenance window is a check too, if it comes first.
+     */
+    private async reschedule(initial = false): Promise<void> {
+        this.clearSchedule();
+        const generation = this.scheduleGeneration;
+
+        let policy: UpdatePolicy;
+        try {
+            await databaseInitService.ensureInitialized();
+            policy = await getUpdatePolicy();
+        } catch (error) {
+            logger.error('Failed to load update policy, scheduling a plain check', error);
+            policy = DEFAULT_POLICY;
+        }
+        // stop(), or a newer reschedule, while the policy was loading
+        if (generation !== this.scheduleGeneration || !this.isRunning) {
+            return;
+        }
+
+        const now = Date.now();
+        const { updaterCheckIntervalMinutes, updaterCheckJitterMinutes } = envService.getConfig();
+        const jitter = (maxMinutes: number) => Math.random() * maxMinutes * MINUTE_MS;
+        const mode = getEffectiveMode(policy, new Date(now));
+
+        let next: { action: ScheduledAction['action']; at: number } | null = null;
+        if (mode === 'postpone') {
+            next = { action: 'check', at: new Date(policy.postponeUntil!).getTime() + jitter(updaterCheckJitterMinutes) };
+        } else if (mode !== 'manual') {
+            next = { action: 'check', at: now + (initial ? 0 : updaterCheckIntervalMinutes * MINUTE_MS) + jitter(updaterCheckJitterMinutes) };
+
+            const window = mode === 'auto' ? getNextWindow(policy, new Date(now)) : null;
+            if (window) {
+                // Keep the spread well inside the window
+                const installAt = window.opensAt.getTime() + jitter(Math.min(updaterCheckJitterMinutes, policy.windowMinutes / 2));
+                if (installAt < next.at) {
+                    next = { action: 'install', at: installAt };
+                }
+            }
+        }
+
+        if (!next) {
+            logger.info('Update policy is manual, no background checks scheduled');
+            return;
+        }
+
+        this.nextAction = { action: next.action, at: new Date(next.at).toISOString() };
+        this.armTimer(next.at, generation);
+        logger.debug('Scheduled next update action', { policy: mode, ...this.nextAction });
+    }
+
+    private armTimer(at: number, generation: number): void {
+        const delay = Math.max(0, at - Date.now());
+        this.scheduleTimer = setTimeout(() => {
+            if (generation !== this.scheduleGeneration) {
+                return;
+            }
+            if (delay > MAX_TIMER_DELAY_MS) {
+                this.armTimer(at, generation);
+            } else {
+                this.runScheduledAction();
+            }
+        }, Math.min(delay, MAX_TIMER_DELAY_MS));
+    }
+
+    private async runScheduledAction(): Promise<void> {
+        this.scheduleTimer = null;
+        this.nextAction = null;
+
+        await this.checkForUpdates();
+        try {
+            await this.installInMaintenanceWindow();
+        } catch (error) {
+            logger.error('Failed to start update in maintenance window', error);
+        }
+        await this.reschedule();
+    }
+
+    /**
+     * Under the auto policy, start installing an available update if the
+     * maintenance window is open. The job must reach the install step before
+     * the window closes, so the application never restarts outside it.
+     */
+    private async installInMaintenanceWindow(): Promise<void> {
+        const policy = await getUpdatePolicy();
+        const info = this.lastUpdateInfo;
+        if (getEffectiveMode(policy) !== 'auto' || !info.updateAvailable) {
+            return;
+        }
+
+        const window = getCurrentWindow(policy);
+        if (!window) {
+            logger.info('Update available, waiting for the maintenance window', { latestVersion: info.latestVersion, opensAt: getNextWindow(policy)?.opensAt.toISOString() });
+            return;
+        }
+        if (this.currentJob && !this.currentJob.isFinished()) {
+            return;
+        }
+
+        const installRoot = getInstallRoot();
+        if (!installRoot) {
+            logger.warn('Update available but this install cannot update itself; reinstall from the latest release package');
+            return;
+        }
+        // Retrying a version the supervisor rolled back would just fail again
+        if (readInstallState(installRoot, getAppVersion()).failedVersion === info.latestVersion) {
+            logger.warn('Not installing a version that was rolled back after its last install', { version: info.latestVersion });
+            return;
+        }
+
+        logger.info('Installing update in maintenance window', { version: info.latestVersion, closesAt: window.closesAt.toISOString() });
+        this.startUpdate(SCHEDULER_INITIATOR, { deadline: window.closesAt });
+    }
+
+    /**
+     * Exit with RESTART_EXIT_CODE after the response has gone out; the
+     * supervisor then starts whichever version is current.
+     */
+    private scheduleRestart(): void {
+        setTimeout(() => {
+            // Checkpoint the WAL and release the database file before exiting
+            DatabaseManager.getInstance().close();
+            process.exit(RESTART_EXIT_CODE);
+        }, 2000);
+    }
+}
+
+export const updaterService = UpdaterService.getInstance();
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { UPDATE_SIGNING_PUBLIC_KEY } from './signing-key';
+
+// Every release carries, next to its archive:
+//   orbis-<version>.manifest.json      - UpdateManifest below
+//   orbis-<version>.manifest.json.sig  - base64 Ed25519 signature of the manifest bytes
+// The manifest is verified against the public key embedded in this build,
+// then the archive and every extracted file are checked against it before
+// anything in the install is touched.
+
+export const MANIFEST_FORMAT_VERSION = 1;
+
+export interface UpdateManifest {
+    formatVersion: number;
+    name: string;
+    version: string;
+    createdAt: string;
+    archive: {
+        name: string;
+        size: number;
+        sha256: string;
+    };
+    /** SHA-256 of every file in the archive, keyed by "/"-separated relative path */
+    files: Record<string, string>;
+}
+
+export class UpdateVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UpdateVerificationError';
+    }
+}
+
+export function getManifestAssetName(archiveName: string): string {
+    return archiveName.replace(/\.(zip|tar\.gz)$/i, '') + '.manifest.json';
+}
+
+export function getSignatureAssetName(archiveName: string): string {
+    return getManifestAssetName(archiveName) + '.sig';
+}
+
+export function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', chunk => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
+
+/**
+ * All regular files under dir, as sorted "/"-separated relative paths.
+ */
+export function listFiles(dir: string): string[] {
+    const files: string[] = [];
+    const walk = (current: string) => {
+        for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+            const fullPath = path.join(current, entry.name);
+            if (entry.isDirectory()) {
+                walk(fullPath);
+            } else if (entry.isFile()) {
+                files.push(path.relative(dir, fullPath).split(path.sep).join('/'));
+            } else {
+                throw new UpdateVerificationError(`Unexpected non-regular file in update package: ${fullPath}`);
+            }
+        }
+    };
+    walk(dir);
+    return files.sort();
+}
+
+/**
+ * Build the manifest for a package directory and the archive made from it.
+ * Used by scripts/sign-update.ts at release time.
+ */
+export async function createManifest(options: { name: string; version: string; packageDir: string; archivePath: string }): Promise<UpdateManifest> {
+    const files: Record<string, string> = {};
+    for (const file of listFiles(options.packageDir)) {
+        files[file] = await hashFile(path.join(options.packageDir, file));
+    }
+
+    return {
+        formatVersion: MANIFEST_FORMAT_VERSION,
+        name: options.name,
+        version: options.version,
+        createdAt: new Date().toISOString(),
+        archive: {
+            name: path.basename(options.archivePath),
+            size: fs.statSync(options.archivePath).size,
+            sha256: await hashFile(options.archivePath),
+        },
+        files,
+    };
+}
+
+/**
+ * Check the signature over the exact manifest bytes, then parse it.
+ */
+export function verifyManifest(manifestBytes: Buffer, signature: string, publicKey: string = UPDATE_SIGNING_PUBLIC_KEY): UpdateManifest {
+    let valid: boolean;
+    try {
+        valid = crypto.verify(null, manifestBytes, crypto.createPublicKey(publicKey), Buffer.from(signature.trim(), 'base64'));
+    } catch (error) {
+        throw new UpdateVerificationError(`Update manifest signature could not be checked: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!valid) {
+        throw new UpdateVerificationError('Update manifest signature is invalid');
+    }
+
+    let manifest: UpdateManifest;
+    try {
+        manifest = JSON.parse(manifestBytes.toString('utf8')) as UpdateManifest;
+    } catch {
+        throw new UpdateVerificationError('Update manifest is not valid JSON');
+    }
+
+    if (manifest.formatVersion !== MANIFEST_FORMAT_VERSION) {
+        throw new UpdateVerificationError(`Unsupported update manifest format ${manifest.formatVersion}`);
+    }
+    if (!manifest.archive?.sha256 || !manifest.files || Object.keys(manifest.files).length === 0) {
+        throw new UpdateVerificationError('Update manifest is incomplete');
+    }
+
+    return manifest;
+}
+
+/**
+ * The downloaded archive must match the manifest exactly; a size mismatch
+ * usually means a truncated download.
+ */
+export async function verifyArchive(archivePath: string, manifest: UpdateManifest): Promise<void> {
+    const size = fs.statSync(archivePath).size;
+    if (size !== manifest.archive.size) {
+        throw new UpdateVerificationError(`Update archive is ${size} bytes, expected ${manifest.archive.size} (incomplete download?)`);
+    }
+    if (await hashFile(archivePath) !== manifest.archive.sha256) {
+        throw new UpdateVerificationError('Update archive SHA-256 does not match the signed manifest');
+    }
+}
+
+/**
+ * Every extracted file must be listed in the manifest with a matching hash,
+ * and every listed file must be present.
+ */
+export async function verifyExtractedFiles(dir: string, manifest: UpdateManifest): Promise<void> {
+    const expected = new Set(Object.keys(manifest.files));
+
+    for (const file of listFiles(dir)) {
+        if (!expected.delete(file)) {
+            throw new UpdateVerificationError(`Update package contains a file not listed in the manifest: ${file}`);
+        }
+        if (await hashFile(path.join(dir, file)) !== manifest.files[file]) {
+            throw new UpdateVerificationError(`SHA-256 mismatch for ${file}`);
+        }
+    }
+
+    if (expected.size > 0) {
+        throw new UpdateVerificationError(`Update package is missing ${expected.size} file(s), e.g. ${[...expected][0]}`);
+    }
+}
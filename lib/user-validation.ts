@@ -0,0 +1,116 @@
+import { isRole, ROLES } from './auth/permissions';
+import { checkPassword } from './password-policy';
+
+// Field-level validation for user payloads, shared by create and update so
+// both accept exactly the same values. Errors are keyed by field name and
+// phrased to follow it: { username: 'must be at most 32 characters' }.
+
+export interface UserInput {
+    username?: string;
+    email?: string;
+    role?: string;
+    password?: string;
+    disabled?: boolean;
+}
+
+export type UserFieldErrors = Record<string, string>;
+
+export interface UserValidation {
+    input: UserInput;
+    errors: UserFieldErrors;
+}
+
+const USERNAME_FORMAT = /^[A-Za-z0-9_.-]{3,32}$/;
+const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_EMAIL_LENGTH = 254;
+const READ_ONLY_FIELDS = ['id', 'created_at', 'updated_at', 'disabled_at', 'password_hash'];
+
+/**
+ * Validate a create (every required field present) or update (any subset)
+ * payload. The password is checked against the policy with the username and
+ * email it will end up alongside; pass the stored ones for an update.
+ */
+export function validateUserInput(
+    body: unknown,
+    options: { partial: boolean; current?: { username: string; email: string } },
+): UserValidation {
+    const input: UserInput = {};
+    const errors: UserFieldErrors = {};
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { input, errors: { body: 'must be a JSON object' } };
+    }
+    const fields = body as Record<string, unknown>;
+
+    for (const key of Object.keys(fields)) {
+        if (READ_ONLY_FIELDS.includes(key)) {
+            errors[key] = key === 'password_hash'
+                ? 'is not accepted; send the plaintext password as password'
+                : 'cannot be changed';
+        } else if (!['username', 'email', 'role', 'password', 'disabled'].includes(key)) {
+            errors[key] = 'is not a known field';
+        }
+    }
+
+    if (fields.username !== undefined) {
+        const username = typeof fields.username === 'string' ? fields.username.trim() : '';
+        if (!USERNAME_FORMAT.test(username)) {
+            errors.username = 'must be 3 to 32 letters, digits, dots, dashes or underscores';
+        } else {
+            input.username = username;
+        }
+    } else if (!options.partial) {
+        errors.username = 'is required';
+    }
+
+    if (fields.email !== undefined) {
+        const email = typeof fields.email === 'string' ? fields.email.trim() : '';
+        if (email.length > MAX_EMAIL_LENGTH || !EMAIL_FORMAT.test(email)) {
+            errors.email = 'must be a valid email address';
+        } else {
+            input.email = email;
+        }
+    } else if (!options.partial) {
+        errors.email = 'is required';
+    }
+
+    if (fields.role !== undefined) {
+        if (!isRole(fields.role)) {
+            errors.role = `must be one of ${ROLES.join(', ')}`;
+        } else {
+            input.role = fields.role;
+        }
+    }
+
+    if (fields.disabled !== undefined) {
+        if (typeof fields.disabled !== 'boolean') {
+            errors.disabled = 'must be true or false';
+        } else {
+            input.disabled = fields.disabled;
+        }
+    }
+
+    if (fields.password !== undefined) {
+        const problems = typeof fields.password === 'string'
+            ? checkPassword(fields.password, {
+                username: input.username ?? options.current?.username,
+                email: input.email ?? options.current?.email,
+            })
+            : ['must be a string'];
+        if (problems.length > 0) {
+            errors.password = problems.join('; ');
+        } else {
+            input.password = fields.password as string;
+        }
+    } else if (!options.partial) {
+        errors.password = 'is required';
+    }
+
+    return { input, errors };
+}
+
+/** The column behind a UNIQUE constraint failure, if that is what the error is */
+export function uniqueConflictField(error: unknown): 'username' | 'email' | null {
+    const match = error instanceof Error && error.message.match(/UNIQUE constraint failed: users\.(username|email)/);
+    return match ? match[1] as 'username' | 'email' : null;
+}
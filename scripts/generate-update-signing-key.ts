@@ -0,0 +1,35 @@
+// Generate the Ed25519 key pair used to sign update packages.
+//
+// Usage: npm run update:keygen -- [private-key-path]
+//
+// The private key (default ./update-signing.key) goes into the
+// UPDATE_SIGNING_KEY repository secret and must never be committed. The
+// printed public key replaces UPDATE_SIGNING_PUBLIC_KEY in
+// lib/updater/signing-key.ts; builds with a different embedded key will
+// refuse packages signed with the new one.
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+
+function main(): void {
+  const privateKeyPath = process.argv[2] || 'update-signing.key';
+  if (fs.existsSync(privateKeyPath)) {
+    throw new Error(`${privateKeyPath} already exists; refusing to overwrite a signing key`);
+  }
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+
+  fs.writeFileSync(privateKeyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+
+  console.log(`🔑 Private key written to ${privateKeyPath}`);
+  console.log('   Store it as the UPDATE_SIGNING_KEY repository secret, then delete the file.');
+  console.log('');
+  console.log('Public key for lib/updater/signing-key.ts:');
+  console.log(publicKey.export({ type: 'spki', format: 'pem' }).toString().trim());
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('❌ Key generation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
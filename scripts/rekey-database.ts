@@ -0,0 +1,97 @@
+// Rotate the database encryption key from the command line.
+//
+// Usage: npm run db:rekey
+//        npm run db:rekey -- --from-development-key
+//
+// Keys are read from OLD_DATABASE_ENCRYPTION_KEY / NEW_DATABASE_ENCRYPTION_KEY
+// when set, otherwise prompted for. Stop the server first - the database file
+// is rewritten in place.
+//
+// --from-development-key is for installs that were encrypted with the public
+// development key because no key was configured. They refuse to start until
+// moved to a private key; this generates one into the default key file (or
+// reuses that file if an earlier run got as far as writing it) and re-encrypts
+// the database with it.
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { DatabaseManager } from '../lib/database';
+import { resolveDataPaths } from '../lib/data-paths';
+import { DEVELOPMENT_FALLBACK_KEY, getDefaultKeyFilePath, writeKeyFile } from '../lib/encryption-key';
+import { envService } from '../lib/environment.service';
+
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+// The key file is written before the database is touched, so the new key
+// survives even if the rekey is interrupted; running again picks it up.
+function prepareDevelopmentKeyMigration(): { oldKey: string; newKey: string } {
+  const config = envService.getConfig();
+  if (config.databaseEncryptionKey || config.databaseEncryptionKeyFile) {
+    throw new Error('--from-development-key is only for installs without a configured key; set OLD_DATABASE_ENCRYPTION_KEY instead');
+  }
+
+  const environment = envService.getEnvironment();
+  const { dataDir } = resolveDataPaths({ dataDirOverride: config.dataDir, environment });
+  const keyFile = getDefaultKeyFilePath(dataDir, environment);
+  if (fs.existsSync(keyFile)) {
+    console.log(`🔑 Using existing key file ${keyFile}`);
+  } else {
+    writeKeyFile(keyFile, crypto.randomBytes(32).toString('hex'));
+    console.log(`🔑 Generated key file ${keyFile}`);
+  }
+
+  return { oldKey: DEVELOPMENT_FALLBACK_KEY, newKey: fs.readFileSync(keyFile, 'utf8').trim() };
+}
+
+async function main(): Promise<void> {
+  if (process.argv.includes('--from-development-key')) {
+    const { oldKey, newKey } = prepareDevelopmentKeyMigration();
+    const database = DatabaseManager.getInstance();
+    console.log(`🔐 Moving ${database.getDbPath()} off the development key`);
+
+    const result = await database.rekey(oldKey, newKey);
+    database.close();
+
+    console.log(`✅ Key rotated at ${result.rotatedAt}`);
+    console.log(`💾 Pre-rotation backup (still on the development key; delete it once the new key is backed up): ${result.backupPath}`);
+    console.log('⚠️  Back up the key file - the database cannot be opened without it.');
+    return;
+  }
+
+  const oldKey = process.env.OLD_DATABASE_ENCRYPTION_KEY || await prompt('Current encryption key: ');
+  const newKey = process.env.NEW_DATABASE_ENCRYPTION_KEY || await prompt('New encryption key: ');
+
+  if (!process.env.NEW_DATABASE_ENCRYPTION_KEY) {
+    const confirmation = await prompt('Confirm new encryption key: ');
+    if (confirmation !== newKey) {
+      throw new Error('New keys do not match');
+    }
+  }
+
+  const database = DatabaseManager.getInstance();
+  console.log(`🔐 Rotating encryption key for ${database.getDbPath()}`);
+
+  const result = await database.rekey(oldKey, newKey);
+  database.close();
+
+  console.log(`✅ Key rotated at ${result.rotatedAt}`);
+  console.log(`💾 Pre-rotation backup: ${result.backupPath}`);
+  if (result.keyFileUpdated) {
+    console.log(`🔑 Key file updated: ${result.keyFileUpdated}`);
+  } else {
+    console.log('⚠️  Update DATABASE_ENCRYPTION_KEY to the new key before starting the application.');
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Rekey failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
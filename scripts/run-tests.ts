@@ -0,0 +1,47 @@
+// Run the unit tests with the built-in node:test runner.
+//
+// Usage: npm test [-- <file> ...]
+//
+// Without arguments every *.test.ts file in a __tests__ directory under
+// lib/ is run. Each file runs in its own process, which inherits tsx's
+// loader from this one, so tests import the TypeScript sources directly.
+import * as fs from 'fs';
+import * as path from 'path';
+import { run } from 'node:test';
+import { spec } from 'node:test/reporters';
+
+const TEST_ROOTS = ['lib'];
+
+function findTestFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findTestFiles(fullPath));
+    } else if (entry.name.endsWith('.test.ts') && path.basename(dir) === '__tests__') {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+const requested = process.argv.slice(2);
+const files = (requested.length > 0
+  ? requested
+  : TEST_ROOTS.flatMap(root => findTestFiles(path.resolve(root)))
+).map(file => path.resolve(file)).sort();
+
+if (files.length === 0) {
+  console.error('❌ No test files found');
+  process.exit(1);
+}
+
+// Service logs would drown the report; set LOG_LEVEL to see them
+process.env.LOG_LEVEL ??= 'error';
+
+run({ files })
+  .on('test:fail', () => {
+    process.exitCode = 1;
+  })
+  .compose(new spec())
+  .pipe(process.stdout);
@@ -0,0 +1,54 @@
+// Write the signed manifest for an update package.
+//
+// Usage: npm run update:sign -- <archive.zip|archive.tar.gz> <package-dir> <version>
+//
+// <package-dir> is the directory the archive was created from. The signing
+// key is read from UPDATE_SIGNING_KEY (PEM) or the file named by
+// UPDATE_SIGNING_KEY_FILE. Writes <archive>.manifest.json and
+// <archive>.manifest.json.sig next to the archive.
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  createManifest,
+  getManifestAssetName,
+  getSignatureAssetName,
+  verifyManifest,
+} from '../lib/updater/verification';
+
+function readSigningKey(): crypto.KeyObject {
+  const pem = process.env.UPDATE_SIGNING_KEY
+    || (process.env.UPDATE_SIGNING_KEY_FILE && fs.readFileSync(process.env.UPDATE_SIGNING_KEY_FILE, 'utf8'));
+  if (!pem) {
+    throw new Error('Set UPDATE_SIGNING_KEY or UPDATE_SIGNING_KEY_FILE');
+  }
+  return crypto.createPrivateKey(pem);
+}
+
+async function main(): Promise<void> {
+  const [archivePath, packageDir, version] = process.argv.slice(2);
+  if (!archivePath || !packageDir || !version) {
+    throw new Error('Usage: sign-update <archive.zip|archive.tar.gz> <package-dir> <version>');
+  }
+
+  const signingKey = readSigningKey();
+  const manifest = await createManifest({ name: 'orbis-ship', version, packageDir, archivePath });
+  const manifestBytes = Buffer.from(JSON.stringify(manifest, null, 2));
+  const signature = crypto.sign(null, manifestBytes, signingKey).toString('base64');
+
+  // Catch a key that does not match the public key shipped in the build
+  verifyManifest(manifestBytes, signature);
+
+  const archiveName = path.basename(archivePath);
+  const manifestPath = path.join(path.dirname(archivePath), getManifestAssetName(archiveName));
+  fs.writeFileSync(manifestPath, manifestBytes);
+  fs.writeFileSync(path.join(path.dirname(archivePath), getSignatureAssetName(archiveName)), signature + '\n');
+
+  console.log(`✅ Signed manifest for ${archiveName}: ${Object.keys(manifest.files).length} files, archive ${manifest.archive.sha256}`);
+  console.log(`   ${manifestPath}`);
+}
+
+main().catch(error => {
+  console.error('❌ Signing failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
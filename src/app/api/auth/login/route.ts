@@ -0,0 +1,74 @@
+// POST /api/auth/login  { username, password }
+//
+// Starts a session and sets it as an HttpOnly cookie. Failures never say
+// whether the username or the password was wrong.
+import { NextRequest, NextResponse } from 'next/server';
+import databaseInitService from '../../../../../lib/database-init';
+import { withRequestContext } from '../../../../../lib/request-context';
+import { createLogger } from '../../../../../lib/logger';
+import { authenticate } from '../../../../../lib/auth/credentials';
+import { sessionService } from '../../../../../lib/auth/sessions';
+import { getSessionClient, getSessionToken, setSessionCookie } from '../../../../../lib/auth/session-cookie';
+import { MAX_PASSWORD_LENGTH } from '../../../../../lib/password-policy';
+
+const logger = createLogger('api:auth');
+
+export const POST = withRequestContext(async (request: NextRequest) => {
+  try {
+    await databaseInitService.ensureInitialized();
+
+    const body = await request.json().catch(() => null);
+    const username = body?.username;
+    const password = body?.password;
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: username, password' },
+        { status: 400 }
+      );
+    }
+
+    // No stored password can be longer, so do not spend a hash on one
+    const user = [...password].length <= MAX_PASSWORD_LENGTH
+      ? await authenticate(username.trim(), password)
+      : null;
+    if (!user) {
+      logger.warn('Failed login', { username: username.slice(0, 64) });
+      return NextResponse.json(
+        { success: false, error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    // A new session ID on every login; any session the browser already had is ended
+    const previousToken = getSessionToken(request);
+    if (previousToken) {
+      await sessionService.revokeSession(previousToken);
+    }
+
+    const { token, session } = await sessionService.createSession(user, getSessionClient(request));
+    logger.info('User logged in', { userId: user.id, username: user.username });
+
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        user: session.user,
+        expiresAt: session.expiresAt,
+        absoluteExpiresAt: session.absoluteExpiresAt
+      }
+    });
+    setSessionCookie(response, request, token, session);
+    return response;
+
+  } catch (error) {
+    logger.error('Login failed', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Login failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
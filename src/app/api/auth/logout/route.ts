@@ -0,0 +1,62 @@
+// POST /api/auth/logout                       end this session
+// POST /api/auth/logout  { everywhere: true } end every session of the signed-in user
+import { NextRequest, NextResponse } from 'next/server';
+import databaseInitService from '../../../../../lib/database-init';
+import { withRequestContext } from '../../../../../lib/request-context';
+import { createLogger } from '../../../../../lib/logger';
+import { sessionService } from '../../../../../lib/auth/sessions';
+import { clearSessionCookie, getSessionToken } from '../../../../../lib/auth/session-cookie';
+
+const logger = createLogger('api:auth');
+
+export const POST = withRequestContext(async (request: NextRequest) => {
+  try {
+    await databaseInitService.ensureInitialized();
+
+    const body = await request.json().catch(() => null);
+    const everywhere = body?.everywhere === true;
+    const token = getSessionToken(request);
+    let revoked = 0;
+
+    if (token) {
+      const session = await sessionService.validateSession(token);
+      if (everywhere && session) {
+        revoked = await sessionService.revokeUserSessions(session.user.id);
+        logger.info('User signed out everywhere', { userId: session.user.id, sessions: revoked });
+      } else {
+        await sessionService.revokeSession(token);
+        revoked = session ? 1 : 0;
+        if (session) {
+          logger.info('User logged out', { userId: session.user.id });
+        }
+      }
+    }
+
+    if (everywhere && revoked === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    // Logging out is idempotent: without a valid session the cookie is still cleared
+    const response = NextResponse.json({
+      success: true,
+      message: everywhere ? `Signed out of ${revoked} session(s)` : 'Signed out',
+      data: { revoked }
+    });
+    clearSessionCookie(response, request);
+    return response;
+
+  } catch (error) {
+    logger.error('Logout failed', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Logout failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,54 @@
+// GET /api/auth/session
+//
+// The signed-in user and when the session expires. Counts as activity, so
+// it also extends the sliding expiry. When nobody is signed in, setupRequired
+// tells the login page that no account exists yet (see /api/auth/setup).
+import { NextRequest, NextResponse } from 'next/server';
+import { DatabaseManager } from '../../../../../lib/database';
+import databaseInitService from '../../../../../lib/database-init';
+import { withRequestContext } from '../../../../../lib/request-context';
+import { createLogger } from '../../../../../lib/logger';
+import { clearSessionCookie, getRequestSession, getSessionToken } from '../../../../../lib/auth/session-cookie';
+
+const logger = createLogger('api:auth');
+
+export const GET = withRequestContext(async (request: NextRequest) => {
+  try {
+    await databaseInitService.ensureInitialized();
+
+    const session = await getRequestSession(request);
+    if (!session) {
+      const users = await DatabaseManager.getInstance().executeQuery('SELECT id FROM users LIMIT 1') as unknown[];
+      const response = NextResponse.json(
+        { success: false, error: 'Authentication required', code: 'unauthenticated', setupRequired: users.length === 0 },
+        { status: 401 }
+      );
+      // Drop a cookie that no longer refers to a session
+      if (getSessionToken(request)) {
+        clearSessionCookie(response, request);
+      }
+      return response;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        user: session.user,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        absoluteExpiresAt: session.absoluteExpiresAt
+      }
+    });
+
+  } catch (error) {
+    logger.error('Failed to read session', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to read session',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
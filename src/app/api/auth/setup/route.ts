@@ -0,0 +1,84 @@
+// POST /api/auth/setup  { username, email, password }
+//
+// Creates the first administrator and signs them in. Only possible while
+// there are no users at all; afterwards accounts are created by an admin.
+import { NextRequest, NextResponse } from 'next/server';
+import { DatabaseManager } from '../../../../../lib/database';
+import databaseInitService from '../../../../../lib/database-init';
+import { withRequestContext } from '../../../../../lib/request-context';
+import { createLogger } from '../../../../../lib/logger';
+import { hashPassword } from '../../../../../lib/password';
+import { validateUserInput, type UserInput } from '../../../../../lib/user-validation';
+import { sessionService, type SessionUser } from '../../../../../lib/auth/sessions';
+import { getSessionClient, setSessionCookie } from '../../../../../lib/auth/session-cookie';
+
+const logger = createLogger('api:auth');
+
+export const POST = withRequestContext(async (request: NextRequest) => {
+  try {
+    await databaseInitService.ensureInitialized();
+
+    const body = await request.json().catch(() => null);
+    const { input, errors } = validateUserInput(body, { partial: false });
+    // The first account is always an active administrator
+    for (const field of ['role', 'disabled'] as const) {
+      if (input[field] !== undefined) {
+        errors[field] = 'cannot be set for the first account';
+      }
+    }
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', fields: errors },
+        { status: 400 }
+      );
+    }
+
+    const { username, email, password } = input as Required<Pick<UserInput, 'username' | 'email' | 'password'>>;
+    const passwordHash = await hashPassword(password);
+
+    // Checked and inserted in one write transaction, so two racing requests
+    // cannot both create an administrator
+    const user = await DatabaseManager.getInstance().transaction((tx): SessionUser | null => {
+      if (tx.get('SELECT id FROM users LIMIT 1')) {
+        return null;
+      }
+      const result = tx.run(
+        "INSERT INTO users (username, email, password_hash, role) VALUES (?, ?, ?, 'admin')",
+        [username, email, passwordHash]
+      );
+      return { id: Number(result.lastInsertRowid), username, email, role: 'admin' };
+    }, { mode: 'immediate' });
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Setup has already been completed' },
+        { status: 409 }
+      );
+    }
+
+    const { token, session } = await sessionService.createSession(user, getSessionClient(request));
+    logger.info('First administrator created', { userId: user.id, username: user.username });
+
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        user: session.user,
+        expiresAt: session.expiresAt,
+        absoluteExpiresAt: session.absoluteExpiresAt
+      }
+    });
+    setSessionCookie(response, request, token, session);
+    return response;
+
+  } catch (error) {
+    logger.error('Setup failed', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Setup failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,96 @@
+// Effective configuration API (secrets redacted)
+import { NextRequest, NextResponse } from 'next/server';
+import { envService, EnvironmentService } from '../../../../lib/environment.service';
+import { configSchema, parseConfig, type ConfigKey } from '../../../../lib/config.schema';
+import { DatabaseManager } from '../../../../lib/database';
+import databaseInitService from '../../../../lib/database-init';
+import { withRequestContext } from '../../../../lib/request-context';
+import { createLogger } from '../../../../lib/logger';
+import { withPermission } from '../../../../lib/auth/authorize';
+
+const logger = createLogger('api:config');
+
+export const GET = withRequestContext(withPermission('config:read', async () => {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: {
+        environment: envService.getEnvironment(),
+        entries: envService.getRedactedConfig(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Failed to read configuration', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to read configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}));
+
+// Set ({ env, value }) or clear ({ env, value: null }) a system_settings override
+export const POST = withRequestContext(withPermission('config:write', async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { env, value } = body;
+
+    const key = (Object.keys(configSchema) as ConfigKey[]).find(k => configSchema[k].env === env);
+    if (!key) {
+      return NextResponse.json(
+        { success: false, error: `Unknown configuration key: ${env}` },
+        { status: 400 }
+      );
+    }
+    if (!envService.isOverridable(key)) {
+      return NextResponse.json(
+        { success: false, error: `${env} is secret or requires a restart and cannot be overridden at runtime` },
+        { status: 400 }
+      );
+    }
+
+    if (value !== null && value !== undefined) {
+      const { errors } = parseConfig({ [env]: String(value) }, envService.getEnvironment());
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid value', details: errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    await databaseInitService.ensureInitialized();
+    const database = DatabaseManager.getInstance();
+    const settingKey = EnvironmentService.getSettingKey(env);
+
+    if (value === null || value === undefined) {
+      await database.deleteSystemSetting(settingKey);
+    } else {
+      await database.setSystemSetting(settingKey, String(value), `Configuration override for ${env}`);
+    }
+
+    const changes = envService.applySettingsOverrides(await database.getSystemSettingsWithPrefix('config.'));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        changes,
+        entries: envService.getRedactedConfig(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to update configuration', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update configuration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -0,0 +1,139 @@
+// Database backup management API
+import { NextRequest, NextResponse } from 'next/server';
+import databaseInitService from '../../../../../lib/database-init';
+import { BackupNotFoundError, backupService, InvalidBackupIdError } from '../../../../../lib/backup.service';
+import { withRequestContext } from '../../../../../lib/request-context';
+import { createLogger } from '../../../../../lib/logger';
+import { withPermission } from '../../../../../lib/auth/authorize';
+
+const logger = createLogger('api:backups');
+
+// A malformed or unknown id is the caller's mistake, not a server error
+function backupIdErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof InvalidBackupIdError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+  if (error instanceof BackupNotFoundError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+  }
+  return null;
+}
+
+export const GET = withRequestContext(withPermission('database:admin', async () => {
+  try {
+    await databaseInitService.ensureInitialized();
+
+    const backups = backupService.listBackups();
+
+    return NextResponse.json({
+      success: true,
+      data: backups,
+      count: backups.length,
+    });
+  } catch (error) {
+    logger.error('Failed to list backups', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list backups',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}));
+
+export const POST = withRequestContext(withPermission('database:admin', async (request: NextRequest) => {
+  try {
+    await databaseInitService.ensureInitialized();
+
+    const body = await request.json();
+    const { action, id } = body;
+
+    switch (action) {
+      case 'create': {
+        const backup = await backupService.createBackup('manual');
+        return NextResponse.json({
+          success: true,
+          message: 'Backup created',
+          data: backup,
+        });
+      }
+
+      case 'restore': {
+        if (!id) {
+          return NextResponse.json(
+            { success: false, error: 'Missing required field: id' },
+            { status: 400 }
+          );
+        }
+        const backup = await backupService.restoreBackup(id);
+        return NextResponse.json({
+          success: true,
+          message: `Backup ${backup.id} restored`,
+          data: backup,
+        });
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'Invalid action. Supported actions: create, restore' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    const idError = backupIdErrorResponse(error);
+    if (idError) {
+      return idError;
+    }
+    logger.error('Backup action failed', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Backup action failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}));
+
+export const DELETE = withRequestContext(withPermission('database:admin', async (request: NextRequest) => {
+  try {
+    await databaseInitService.ensureInitialized();
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required query parameter: id' },
+        { status: 400 }
+      );
+    }
+
+    if (!backupService.deleteBackup(id)) {
+      return NextResponse.json(
+        { success: false, error: `Backup not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Backup ${id} deleted`,
+    });
+  } catch (error) {
+    const idError = backupIdErrorResponse(error);
+    if (idError) {
+      return idError;
+    }
+    logger.error('Failed to delete backup', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete backup',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -1,9 +1,15 @@
 // Database health check and initialization API
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import databaseInitService from '../../../../lib/database-init';
 import { DatabaseManager } from '../../../../lib/database';
+import { withRequestContext } from '../../../../lib/request-context';
+import { createLogger } from '../../../../lib/logger';
+import { withPermission } from '../../../../lib/auth/authorize';
+import { hasPermission } from '../../../../lib/auth/permissions';
 
-export async function GET() {
+const logger = createLogger('api:database');
+
+export const GET = withRequestContext(withPermission('database:read', async (request, context, session) => {
   try {
     // Ensure database is initialized (lazy initialization)
     await databaseInitService.ensureInitialized();
@@ -12,6 +18,15 @@ export async function GET() {
     const database = DatabaseManager.getInstance();
     const version = await database.getSystemSetting('app_version');
     const initTimestamp = await database.getSystemSetting('database_initialized');
+    const schema = await database.getMigrationStatus();
+    // Where the database and its key live is only for those who administer it
+    const location = hasPermission(session.user.role, 'database:admin')
+      ? {
+          dbPath: database.getDbPath(),
+          paths: database.getDataPaths(),
+          encryptionKeySource: database.getEncryptionKeySource(),
+        }
+      : {};
     
     return NextResponse.json({
       success: true,
@@ -20,12 +35,13 @@ export async function GET() {
         isInitialized: databaseInitService.isReady(),
         appVersion: version,
         initializedAt: initTimestamp,
-        dbPath: database.getDbPath(),
+        ...location,
+        schema,
       },
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Database health check failed:', error);
+    logger.error('Database health check failed', error);
     return NextResponse.json(
       {
         success: false,
@@ -36,12 +52,35 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+}));
+
+export const POST = withRequestContext(withPermission('database:admin', async (request: NextRequest) => {
+  // The body is optional; an empty POST keeps forcing initialization
+  const body = await request.json().catch(() => ({}));
+  const { action = 'initialize' } = body;
+
+  switch (action) {
+    case 'initialize':
+      return initializeDatabase();
+
+    case 'rekey':
+      return rekeyDatabase(body.oldKey, body.newKey);
 
-export async function POST() {
+    default:
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid action. Supported actions: initialize, rekey',
+        },
+        { status: 400 }
+      );
+  }
+}));
+
+async function initializeDatabase() {
   try {
     // Force database initialization
-    console.log('[api/database] Manual database initialization requested');
+    logger.info('Manual database initialization requested');
     await databaseInitService.initialize();
     
     return NextResponse.json({
@@ -50,7 +89,7 @@ export async function POST() {
       isInitialized: databaseInitService.isReady(),
     });
   } catch (error) {
-    console.error('Database initialization failed:', error);
+    logger.error('Database initialization failed', error);
     return NextResponse.json(
       {
         success: false,
@@ -60,4 +99,41 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+async function rekeyDatabase(oldKey: unknown, newKey: unknown) {
+  if (typeof oldKey !== 'string' || typeof newKey !== 'string' || !oldKey || !newKey) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Missing required fields: oldKey, newKey',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    logger.info('Encryption key rotation requested');
+    await databaseInitService.ensureInitialized();
+
+    const result = await DatabaseManager.getInstance().rekey(oldKey, newKey);
+
+    return NextResponse.json({
+      success: true,
+      message: result.keyFileUpdated
+        ? `Encryption key rotated and ${result.keyFileUpdated} updated.`
+        : 'Encryption key rotated. Update DATABASE_ENCRYPTION_KEY to the new key before the next restart.',
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Database rekey failed', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Database rekey failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
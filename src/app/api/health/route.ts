@@ -1,15 +1,48 @@
 // Health check API route
+//
+// Also the post-update probe of builder/supervisor.mjs: a new version only
+// counts as installed once this returns 200 with status "ok" and its own
+// version, so keep the response shape stable.
 import { NextResponse } from 'next/server';
+import databaseInitService from '../../../../lib/database-init';
+import { DatabaseManager } from '../../../../lib/database';
+import { getAppVersion } from '../../../../lib/app-version';
+import { withRequestContext } from '../../../../lib/request-context';
+import { createLogger } from '../../../../lib/logger';
 
-export async function GET() {
-  return NextResponse.json({ 
-    status: 'ok', 
-    timestamp: new Date().toISOString(),
-    version: process.env.npm_package_version || 'unknown',
-    uptime: process.uptime()
-  });
-}
+const logger = createLogger('api:health');
+
+export const GET = withRequestContext(async () => {
+  const version = getAppVersion() || 'unknown';
+
+  try {
+    await databaseInitService.ensureInitialized();
+    await DatabaseManager.getInstance().getMigrationStatus();
+
+    return NextResponse.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      version,
+      uptime: process.uptime(),
+      database: 'ok',
+    });
+  } catch (error) {
+    // The route is public: the cause goes to the log, not the response
+    logger.error('Health check failed', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        version,
+        uptime: process.uptime(),
+        database: 'error',
+        message: 'database unavailable',
+      },
+      { status: 503 }
+    );
+  }
+});
 
 export async function HEAD() {
   return new NextResponse(null, { status: 200 });
-}
\ No newline at end of file
+}
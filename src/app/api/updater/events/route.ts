@@ -0,0 +1,61 @@
+// Server-Sent Events stream of update progress
+//
+// Sends a "snapshot" event with the current (or last) update job on
+// connect, then "state" events as the job moves through its phases and
+// "log" events for each log line.
+import { NextRequest } from 'next/server';
+import { withRequestContext } from '../../../../../lib/request-context';
+import { withPermission } from '../../../../../lib/auth/authorize';
+import { updaterService } from '../../../../../lib/updater/updater.service';
+
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+export const GET = withRequestContext(withPermission('updater:read', async (request: NextRequest) => {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away between events
+          cleanup();
+        }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      send('snapshot', updaterService.getCurrentJob()?.snapshot() ?? null);
+      const unsubscribe = updaterService.subscribe(event =>
+        event.type === 'state' ? send('state', event.state) : send('log', event.entry));
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}));
@@ -0,0 +1,67 @@
+// Update history: checks, downloads, installs and rollbacks, newest first
+//
+// GET /api/updater/history?limit=50&before=<id>&event=install
+// Page back through older entries by passing the returned nextCursor as `before`.
+import { NextRequest, NextResponse } from 'next/server';
+import databaseInitService from '../../../../../lib/database-init';
+import { withRequestContext } from '../../../../../lib/request-context';
+import { createLogger } from '../../../../../lib/logger';
+import { withPermission } from '../../../../../lib/auth/authorize';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  getUpdateHistory,
+  isUpdateHistoryEvent,
+  MAX_HISTORY_LIMIT,
+  UPDATE_HISTORY_EVENTS
+} from '../../../../../lib/updater/history';
+
+const logger = createLogger('api:updater:history');
+
+export const GET = withRequestContext(withPermission('updater:read', async (request: NextRequest) => {
+  const params = request.nextUrl.searchParams;
+  const limit = Number(params.get('limit') ?? DEFAULT_HISTORY_LIMIT);
+  const before = params.get('before');
+  const event = params.get('event');
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    return NextResponse.json({
+      success: false,
+      error: `limit must be a whole number between 1 and ${MAX_HISTORY_LIMIT}`
+    }, { status: 400 });
+  }
+  if (before !== null && !/^\d+$/.test(before)) {
+    return NextResponse.json({
+      success: false,
+      error: 'before must be a history entry id'
+    }, { status: 400 });
+  }
+  if (event !== null && !isUpdateHistoryEvent(event)) {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid event. Supported events: ${UPDATE_HISTORY_EVENTS.join(', ')}`
+    }, { status: 400 });
+  }
+
+  try {
+    await databaseInitService.ensureInitialized();
+
+    const entries = await getUpdateHistory({
+      limit,
+      before: before !== null ? Number(before) : undefined,
+      event: event ?? undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+      count: entries.length,
+      nextCursor: entries.length === limit ? entries[entries.length - 1].id : null
+    });
+  } catch (error) {
+    logger.error('Failed to read update history', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to read update history'
+    }, { status: 500 });
+  }
+}));
@@ -0,0 +1,214 @@
+// GET    /api/users/:id   one user
+// PATCH  /api/users/:id   { username?, email?, role?, password?, disabled?, currentPassword? }
+// DELETE /api/users/:id   disable the account; users are never removed
+//
+// Accounts other than plain users, and role changes, need users:manage-roles,
+// so only admins can touch other admins and moderators. Any signed-in user
+// may change their own name, email and password; a new password of your own
+// needs currentPassword.
+import { NextRequest, NextResponse } from 'next/server';
+import { DatabaseManager, LastAdminError, type UserRecord } from '../../../../../lib/database';
+import { withRequestContext } from '../../../../../lib/request-context';
+import { createLogger } from '../../../../../lib/logger';
+import { hashPassword } from '../../../../../lib/password';
+import { requireSession, withPermission } from '../../../../../lib/auth/authorize';
+import { verifyCurrentPassword } from '../../../../../lib/auth/credentials';
+import { forbiddenResponse } from '../../../../../lib/auth/edge';
+import { hasPermission } from '../../../../../lib/auth/permissions';
+import { sessionService, type Session } from '../../../../../lib/auth/sessions';
+import { uniqueConflictField, validateUserInput } from '../../../../../lib/user-validation';
+
+const logger = createLogger('api:users');
+
+type UserRouteContext = { params: Promise<{ id: string }> };
+
+async function findUser(context: UserRouteContext): Promise<UserRecord | NextResponse> {
+  const { id } = await context.params;
+  if (!/^\d+$/.test(id)) {
+    return NextResponse.json(
+      { success: false, error: 'User id must be a positive whole number' },
+      { status: 400 }
+    );
+  }
+  const user = await DatabaseManager.getInstance().getUserById(Number(id));
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: `User ${id} not found` },
+      { status: 404 }
+    );
+  }
+  return user;
+}
+
+function canManage(session: Session, user: UserRecord): boolean {
+  return user.role === 'user' || hasPermission(session.user.role, 'users:manage-roles');
+}
+
+function lastAdminResponse(error: LastAdminError): NextResponse {
+  return NextResponse.json(
+    { success: false, error: error.message, code: 'last-admin' },
+    { status: 409 }
+  );
+}
+
+export const GET = withRequestContext(withPermission<UserRouteContext>('users:read', async (request, context) => {
+  try {
+    const user = await findUser(context);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+    return NextResponse.json({ success: true, data: user });
+  } catch (error) {
+    logger.error('Failed to fetch user', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch user',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
+
+// Not wrapped in withPermission: editing your own account needs no users:write
+export const PATCH = withRequestContext(async (request: NextRequest, context: UserRouteContext) => {
+  const authentication = await requireSession(request);
+  if (!authentication.ok) {
+    return authentication.response;
+  }
+  const { session } = authentication;
+  const canWrite = hasPermission(session.user.role, 'users:write');
+
+  try {
+    // Checked before the lookup, so users without users:write cannot probe other ids
+    if (!canWrite && (await context.params).id !== String(session.user.id)) {
+      return forbiddenResponse('users:write');
+    }
+    const user = await findUser(context);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const body = await request.json().catch(() => null);
+    // currentPassword confirms the change; it is not a field of the account
+    const isObject = !!body && typeof body === 'object' && !Array.isArray(body);
+    const { currentPassword, ...fields } = isObject ? body : {};
+    const { input, errors } = validateUserInput(isObject ? fields : body, { partial: true, current: user });
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', fields: errors },
+        { status: 400 }
+      );
+    }
+
+    // Your own name, email and password are yours to change, whatever your role
+    const ownProfile = user.id === session.user.id && input.disabled === undefined;
+    const changesRole = input.role !== undefined && input.role !== user.role;
+    if (!ownProfile && !canWrite) {
+      return forbiddenResponse('users:write');
+    }
+    if (!(canManage(session, user) || ownProfile) || (changesRole && !hasPermission(session.user.role, 'users:manage-roles'))) {
+      return forbiddenResponse('users:manage-roles');
+    }
+
+    if (ownProfile && input.password !== undefined) {
+      if (typeof currentPassword !== 'string' || currentPassword === '') {
+        return NextResponse.json(
+          { success: false, error: 'Validation failed', fields: { currentPassword: 'is required to change your own password' } },
+          { status: 400 }
+        );
+      }
+      if (!await verifyCurrentPassword(user.id, currentPassword)) {
+        return NextResponse.json(
+          { success: false, error: 'Validation failed', fields: { currentPassword: 'is incorrect' } },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await DatabaseManager.getInstance().updateUser(user.id, {
+      username: input.username,
+      email: input.email,
+      role: input.role,
+      passwordHash: input.password !== undefined ? await hashPassword(input.password) : undefined,
+      disabled: input.disabled
+    });
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: `User ${user.id} not found` },
+        { status: 404 }
+      );
+    }
+
+    // A new password ends the user's other sessions; re-enabling ends the
+    // sessions left from before the account was disabled
+    const reenabled = user.disabled_at !== null && updated.disabled_at === null;
+    if (input.password !== undefined || reenabled) {
+      await sessionService.revokeUserSessions(user.id, user.id === session.user.id ? session.id : undefined);
+    }
+
+    logger.info('User updated', {
+      userId: user.id,
+      fields: Object.keys(input),
+      by: session.user.username
+    });
+    return NextResponse.json({ success: true, data: updated });
+
+  } catch (error) {
+    if (error instanceof LastAdminError) {
+      return lastAdminResponse(error);
+    }
+    const conflict = uniqueConflictField(error);
+    if (conflict) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', fields: { [conflict]: 'is already taken' } },
+        { status: 409 }
+      );
+    }
+    logger.error('Failed to update user', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update user',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withRequestContext(withPermission<UserRouteContext>('users:write', async (request, context, session) => {
+  try {
+    const user = await findUser(context);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+    if (!canManage(session, user)) {
+      return forbiddenResponse('users:manage-roles');
+    }
+
+    const disabled = await DatabaseManager.getInstance().disableUser(user.id);
+    logger.info('User disabled', { userId: user.id, by: session.user.username });
+
+    return NextResponse.json({
+      success: true,
+      message: user.disabled_at ? 'User was already disabled' : 'User disabled',
+      data: disabled
+    });
+
+  } catch (error) {
+    if (error instanceof LastAdminError) {
+      return lastAdminResponse(error);
+    }
+    logger.error('Failed to disable user', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to disable user',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}));
@@ -1,32 +1,93 @@
+// GET  /api/users?search=ann&role=admin&status=active&sort=username&order=asc&limit=50&cursor=<nextCursor>
+// POST /api/users  { username, email, password, role? }
+//
+// Page through the listing by passing the returned nextCursor back as `cursor`
+// with the same filters, sort and order; total counts every matching user.
 import { NextRequest, NextResponse } from 'next/server';
-import { DatabaseManager } from '../../../../lib/database';
+import {
+  DatabaseManager,
+  DEFAULT_USER_PAGE_SIZE,
+  InvalidCursorError,
+  MAX_USER_PAGE_SIZE,
+  USER_SORT_FIELDS,
+  type UserSortField,
+  type UserStatus
+} from '../../../../lib/database';
 import databaseInitService from '../../../../lib/database-init';
+import { withRequestContext } from '../../../../lib/request-context';
+import { createLogger } from '../../../../lib/logger';
+import { hashPassword } from '../../../../lib/password';
+import { withPermission } from '../../../../lib/auth/authorize';
+import { forbiddenResponse } from '../../../../lib/auth/edge';
+import { hasPermission, isRole, ROLES } from '../../../../lib/auth/permissions';
+import { uniqueConflictField, validateUserInput, type UserInput } from '../../../../lib/user-validation';
+
+const logger = createLogger('api:users');
+
+const USER_STATUSES: UserStatus[] = ['active', 'disabled'];
+const MAX_SEARCH_LENGTH = 100;
+
+function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+export const GET = withRequestContext(withPermission('users:read', async (request: NextRequest) => {
+  const params = request.nextUrl.searchParams;
+  const limit = Number(params.get('limit') ?? DEFAULT_USER_PAGE_SIZE);
+  const search = params.get('search')?.trim() || undefined;
+  const role = params.get('role') || undefined;
+  const status = params.get('status') || undefined;
+  const sort = params.get('sort') || undefined;
+  const order = params.get('order') || undefined;
+  const cursor = params.get('cursor') || undefined;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_USER_PAGE_SIZE) {
+    return badRequest(`limit must be a whole number between 1 and ${MAX_USER_PAGE_SIZE}`);
+  }
+  if (search && search.length > MAX_SEARCH_LENGTH) {
+    return badRequest(`search must be at most ${MAX_SEARCH_LENGTH} characters`);
+  }
+  if (role !== undefined && !isRole(role)) {
+    return badRequest(`Invalid role. Supported roles: ${ROLES.join(', ')}`);
+  }
+  if (status !== undefined && !(USER_STATUSES as string[]).includes(status)) {
+    return badRequest(`Invalid status. Supported statuses: ${USER_STATUSES.join(', ')}`);
+  }
+  if (sort !== undefined && !(USER_SORT_FIELDS as string[]).includes(sort)) {
+    return badRequest(`Invalid sort. Supported sort fields: ${USER_SORT_FIELDS.join(', ')}`);
+  }
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    return badRequest('order must be asc or desc');
+  }
 
-export async function GET() {
   try {
     // Ensure database is initialized
     await databaseInitService.ensureInitialized();
     
-    const dbManager = DatabaseManager.getInstance();
-    
-    // Get all users (excluding password_hash for security)
-    const users = await dbManager.getAllUsers() as Array<{
-      id: number;
-      username: string;
-      email: string;
-      role: string;
-      created_at: string;
-      updated_at: string;
-    }>;
+    // Never includes password_hash
+    const page = await DatabaseManager.getInstance().listUsers({
+      search,
+      role,
+      status: status as UserStatus | undefined,
+      sort: sort as UserSortField | undefined,
+      order,
+      limit,
+      cursor
+    });
 
     return NextResponse.json({
       success: true,
-      data: users,
-      count: users.length
+      data: page.users,
+      count: page.users.length,
+      total: page.total,
+      nextCursor: page.nextCursor
     });
 
   } catch (error) {
-    console.error('Error fetching users:', error);
+    if (error instanceof InvalidCursorError) {
+      return badRequest(error.message);
+    }
+    logger.error('Failed to fetch users', error);
     return NextResponse.json(
       { 
         success: false, 
@@ -36,30 +97,39 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+}));
 
-export async function POST(request: NextRequest) {
+export const POST = withRequestContext(withPermission('users:write', async (request: NextRequest, context, session) => {
   try {
     // Ensure database is initialized
     await databaseInitService.ensureInitialized();
     
-    const body = await request.json();
-    const { username, email, password_hash, role = 'user' } = body;
-
-    if (!username || !email || !password_hash) {
+    const body = await request.json().catch(() => null);
+    const { input, errors } = validateUserInput(body, { partial: false });
+    if (input.disabled !== undefined) {
+      errors.disabled = 'cannot be set when creating a user';
+    }
+    if (Object.keys(errors).length > 0) {
       return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Missing required fields: username, email, password_hash' 
-        },
+        { success: false, error: 'Validation failed', fields: errors },
         { status: 400 }
       );
     }
 
+    // All three are present once validation passed
+    const { username, email, password } = input as Required<Pick<UserInput, 'username' | 'email' | 'password'>>;
+    const role = input.role ?? 'user';
+    if (role !== 'user' && !hasPermission(session.user.role, 'users:manage-roles')) {
+      return forbiddenResponse('users:manage-roles');
+    }
+
+    // Hashes are only ever made here, so a client cannot pick a weak scheme
+    const passwordHash = await hashPassword(password);
+
     const dbManager = DatabaseManager.getInstance();
     
     // Create new user
-    const result = await dbManager.createUser(username, email, password_hash, role);
+    const result = await dbManager.createUser(username, email, passwordHash, role);
 
     return NextResponse.json({
       success: true,
@@ -72,7 +142,14 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('Error creating user:', error);
+    const conflict = uniqueConflictField(error);
+    if (conflict) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', fields: { [conflict]: 'is already taken' } },
+        { status: 409 }
+      );
+    }
+    logger.error('Failed to create user', error);
     return NextResponse.json(
       { 
         success: false, 
@@ -82,4 +159,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}));
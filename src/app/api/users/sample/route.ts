@@ -2,8 +2,15 @@ import { NextResponse } from 'next/server';
 import { DatabaseManager } from '../../../../../lib/database';
 import databaseInitService from '../../../../../lib/database-init';
 import * as crypto from 'crypto';
+import { hashPassword } from '../../../../../lib/password';
+import { withPermission } from '../../../../../lib/auth/authorize';
+import { withRequestContext } from '../../../../../lib/request-context';
+import { createLogger } from '../../../../../lib/logger';
 
-export async function POST() {
+const logger = createLogger('api:users');
+
+// Seeds an admin and a moderator, so it needs the right to hand out roles
+export const POST = withRequestContext(withPermission('users:manage-roles', async () => {
   try {
     // Ensure database is initialized
     await databaseInitService.ensureInitialized();
@@ -19,38 +26,50 @@ export async function POST() {
       { username: 'alice_brown', email: 'alice@example.com', role: 'user' },
     ];
 
-    const createdUsers = [];
-
-    for (const userData of sampleUsers) {
-      try {
-        // Create a simple hash for demo purposes (in production, use proper bcrypt)
-        const passwordHash = crypto.createHash('sha256').update('password123').digest('hex');
-        
-        const result = await dbManager.createUser(
-          userData.username,
-          userData.email,
-          passwordHash,
-          userData.role
+    // A fresh random password per seeding, shown once in the response; there
+    // is no fixed default credential to forget to change
+    const password = crypto.randomBytes(12).toString('base64url');
+    const passwordHash = await hashPassword(password);
+
+    // Seed all users in one transaction so a failure never leaves partial data
+    const createdUsers = await dbManager.transaction((tx) => {
+      const created = [];
+
+      for (const userData of sampleUsers) {
+        const existing = tx.get(
+          'SELECT id FROM users WHERE username = ? OR email = ?',
+          [userData.username, userData.email]
         );
 
-        createdUsers.push({
-          id: result.lastInsertRowid,
+        if (existing) {
+          logger.debug('Sample user already exists, skipping', { username: userData.username });
+          continue;
+        }
+
+        const result = tx.run(
+          'INSERT INTO users (username, email, password_hash, role) VALUES (?, ?, ?, ?)',
+          [userData.username, userData.email, passwordHash, userData.role]
+        );
+
+        created.push({
+          id: Number(result.lastInsertRowid),
           ...userData
         });
-      } catch (err) {
-        // User might already exist, skip
-        console.log(`User ${userData.username} already exists, skipping...`, err);
       }
-    }
+
+      return created;
+    }, { mode: 'immediate' });
 
     return NextResponse.json({
       success: true,
       message: `Created ${createdUsers.length} sample users`,
-      data: createdUsers
+      data: createdUsers,
+      // Only meaningful for the users created now; it is not stored anywhere
+      password: createdUsers.length > 0 ? password : null
     });
 
   } catch (error) {
-    console.error('Error creating sample users:', error);
+    logger.error('Failed to create sample users', error);
     return NextResponse.json(
       { 
         success: false, 
@@ -60,4 +79,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}));
@@ -0,0 +1,187 @@
+import { Fragment, type ReactNode } from 'react';
+
+// Renders the Markdown used in release notes - headings, paragraphs, lists,
+// quotes, code, emphasis and links - as React elements. Nothing is ever
+// injected as HTML: raw HTML in the source is shown as text, and only
+// http(s) and mailto links become links, so notes from any update source
+// are safe to display.
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; lines: string[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+const SAFE_URL = /^(?:https?:|mailto:)/i;
+const INLINE = /(`+)([\s\S]*?)\1|\*\*([\s\S]+?)\*\*|__([\s\S]+?)__|\*(\S[^*]*?)\*|\b_(\S[^_]*?)_\b|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+
+const HEADING_STYLES = ['text-base font-semibold', 'text-sm font-semibold', 'text-sm font-medium'];
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i++].replace(/^\s*>\s?/, ''));
+      }
+      blocks.push({ type: 'quote', lines: quoted });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      // Nested lists are flattened; indented lines continue the item above
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && /\d/.test(next[1]) === ordered) {
+          items.push(next[2]);
+        } else if (!next && /^\s+\S/.test(lines[i])) {
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+}
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  let index = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, , code, strong, strongAlt, em, emAlt, linkText, linkUrl, bareUrl] = match;
+    const key = `${keyPrefix}-${index++}`;
+    if (match.index > last) {
+      nodes.push(text.slice(last, match.index));
+    }
+
+    if (code !== undefined) {
+      nodes.push(<code key={key} className="px-1 bg-gray-100 rounded font-mono text-xs">{code}</code>);
+    } else if (strong || strongAlt) {
+      nodes.push(<strong key={key}>{renderInline(strong || strongAlt, key)}</strong>);
+    } else if (em || emAlt) {
+      nodes.push(<em key={key}>{renderInline(em || emAlt, key)}</em>);
+    } else if (linkText !== undefined) {
+      nodes.push(SAFE_URL.test(linkUrl)
+        ? <a key={key} href={linkUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{renderInline(linkText, key)}</a>
+        : <Fragment key={key}>{renderInline(linkText, key)}</Fragment>);
+    } else {
+      nodes.push(<a key={key} href={bareUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">{bareUrl}</a>);
+    }
+    last = match.index + whole.length;
+  }
+
+  if (last < text.length) {
+    nodes.push(text.slice(last));
+  }
+  return nodes;
+}
+
+function renderBlock(block: Block, key: string): ReactNode {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <p key={key} role="heading" aria-level={block.level} className={`text-gray-900 ${HEADING_STYLES[Math.min(block.level, 3) - 1]}`}>
+          {renderInline(block.text, key)}
+        </p>
+      );
+    case 'paragraph':
+      // Release notes are written with significant line breaks, as on GitHub
+      return (
+        <p key={key}>
+          {block.lines.map((line, i) => (
+            <Fragment key={i}>
+              {i > 0 && <br />}
+              {renderInline(line, `${key}-${i}`)}
+            </Fragment>
+          ))}
+        </p>
+      );
+    case 'list': {
+      const items = block.items.map((item, i) => <li key={i}>{renderInline(item, `${key}-${i}`)}</li>);
+      return block.ordered
+        ? <ol key={key} className="list-decimal pl-5 space-y-1">{items}</ol>
+        : <ul key={key} className="list-disc pl-5 space-y-1">{items}</ul>;
+    }
+    case 'quote':
+      return (
+        <blockquote key={key} className="pl-3 border-l-4 border-gray-300 text-gray-600">
+          {parseBlocks(block.lines.join('\n')).map((inner, i) => renderBlock(inner, `${key}-${i}`))}
+        </blockquote>
+      );
+    case 'code':
+      return <pre key={key} className="p-2 bg-gray-100 rounded font-mono text-xs overflow-x-auto">{block.text}</pre>;
+    case 'rule':
+      return <hr key={key} className="border-gray-200" />;
+  }
+}
+
+export default function Markdown({ source, className = '' }: { source: string; className?: string }) {
+  return (
+    <div className={`space-y-2 text-sm text-gray-700 ${className}`.trim()}>
+      {parseBlocks(source).map((block, i) => renderBlock(block, `b${i}`))}
+    </div>
+  );
+}
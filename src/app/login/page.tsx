@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+interface SessionInfo {
+  user: {
+    id: number;
+    username: string;
+    email: string;
+    role: string;
+  };
+  expiresAt: string;
+  absoluteExpiresAt: string;
+}
+
+// Only same-origin paths, so ?next= cannot send the user to another site
+function getReturnPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
+}
+
+export default function LoginPage() {
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  // No account exists yet, so the form creates the first administrator
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [checking, setChecking] = useState(true);
+  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Per-field problems from setup, e.g. { password: 'must be at least 12 characters' }
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSession();
+  }, []);
+
+  const fetchSession = async () => {
+    try {
+      const response = await fetch('/api/auth/session', { cache: 'no-store' });
+      const data = await response.json();
+      setSession(data.success ? data.data : null);
+      setSetupRequired(!data.success && data.setupRequired === true);
+    } catch (err) {
+      console.error('Error fetching session:', err);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const login = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      setFieldErrors({});
+      const response = await fetch(setupRequired ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(setupRequired ? { username, email, password } : { username, password }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        window.location.assign(getReturnPath());
+      } else {
+        setError(data.error || 'Login failed');
+        setFieldErrors(data.fields || {});
+        if (!setupRequired) {
+          setPassword('');
+        }
+      }
+    } catch (err) {
+      setError('Network error: Failed to log in');
+      console.error('Error logging in:', err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const logout = async (everywhere: boolean) => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ everywhere }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSession(null);
+        setMessage(data.message);
+      } else {
+        setError(data.error || 'Failed to sign out');
+      }
+    } catch (err) {
+      setError('Network error: Failed to sign out');
+      console.error('Error signing out:', err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (checking) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-center items-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-sm mx-auto bg-white shadow-lg rounded-lg p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">
+          {session ? 'Signed In' : setupRequired ? 'Create Administrator' : 'Sign In'}
+        </h1>
+
+        {setupRequired && !session && (
+          <p className="mb-4 text-sm text-gray-600">
+            No accounts exist yet. The account you create now becomes the first administrator.
+          </p>
+        )}
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+            {Object.keys(fieldErrors).length > 0 && (
+              <ul className="mt-1 list-disc pl-5">
+                {Object.entries(fieldErrors).map(([field, problem]) => (
+                  <li key={field}>{field.charAt(0).toUpperCase() + field.slice(1)} {problem}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {message && (
+          <div className="mb-4 bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{message}</div>
+        )}
+
+        {session ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Signed in as <span className="font-semibold">{session.user.username}</span> ({session.user.role}).
+            </p>
+            <p className="text-xs text-gray-500">
+              Session ends after inactivity at {new Date(session.expiresAt).toLocaleString()}, and
+              at the latest at {new Date(session.absoluteExpiresAt).toLocaleString()}.
+            </p>
+            <div className="flex flex-col gap-2">
+              <Link
+                href="/"
+                className="bg-blue-600 hover:bg-blue-700 text-white text-center font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Continue
+              </Link>
+              <button
+                onClick={() => logout(false)}
+                disabled={submitting}
+                className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Sign Out
+              </button>
+              <button
+                onClick={() => logout(true)}
+                disabled={submitting}
+                className="bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Sign Out Everywhere
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={login} className="space-y-4">
+            <div>
+              <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+              <input
+                id="username"
+                type="text"
+                autoComplete="username"
+                required
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900"
+              />
+            </div>
+            {setupRequired && (
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                <input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900"
+                />
+              </div>
+            )}
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+              <input
+                id="password"
+                type="password"
+                autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              {submitting ? 'Signing in...' : setupRequired ? 'Create Administrator' : 'Sign In'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
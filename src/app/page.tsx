@@ -35,6 +35,12 @@ export default function Home() {
             >
               👥 Users Management
             </a>
+            <a
+              className="rounded-lg border border-solid border-gray-300 dark:border-gray-600 transition-colors flex items-center justify-center hover:bg-gray-100 dark:hover:bg-gray-800 font-medium text-sm h-10 px-4 w-full"
+              href="/login"
+            >
+              🔑 Sign In
+            </a>
             <a
               className="rounded-lg border border-solid border-gray-300 dark:border-gray-600 transition-colors flex items-center justify-center hover:bg-gray-100 dark:hover:bg-gray-800 font-medium text-sm h-10 px-4 w-full"
               href="/updater"
@@ -1,15 +1,102 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Markdown from '../components/Markdown';
+
+interface InstalledVersion {
+  version: string;
+  path: string;
+}
+
+interface InstallState {
+  current: InstalledVersion;
+  previous: InstalledVersion | null;
+  status: 'pending' | 'healthy' | 'rolled-back';
+  updatedAt: string;
+  failedVersion?: string;
+  message?: string;
+}
+
+type UpdatePhase = 'checking' | 'downloading' | 'verifying' | 'extracting' | 'installing' | 'restarting' | 'failed' | 'cancelled';
+
+interface UpdateJobLogEntry {
+  time: string;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+interface UpdateJobState {
+  id: string;
+  phase: UpdatePhase;
+  version: string | null;
+  bytesDownloaded: number;
+  bytesTotal: number | null;
+  cancellable: boolean;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+interface UpdateJob extends UpdateJobState {
+  log: UpdateJobLogEntry[];
+}
+
+interface ReleaseNotes {
+  version: string;
+  name: string | null;
+  publishedAt: string | null;
+  body: string;
+  breaking: boolean;
+  requiresMigration: boolean;
+}
+
+interface UpdateHistoryEntry {
+  id: number;
+  event: 'check' | 'download' | 'install' | 'rollback';
+  outcome: 'succeeded' | 'failed' | 'cancelled';
+  fromVersion: string | null;
+  toVersion: string | null;
+  durationMs: number | null;
+  message: string | null;
+  error: string | null;
+  initiatedBy: string;
+  jobId: string | null;
+  createdAt: string;
+}
+
+interface UpdatePolicy {
+  mode: string;
+  maintenanceWindow: string;
+  windowMinutes: number;
+  postponeUntil: string | null;
+}
 
 interface UpdaterStatus {
   isRunning: boolean;
   localVersion: string | null;
-  repository: string;
+  source: { kind: 'github' | 'http' | 'local'; location: string } | null;
   lastCheck: string | null;
   updateAvailable: boolean;
   latestVersion: string | null;
   releaseName?: string;
+  releaseNotes: ReleaseNotes[];
+  releaseNotesTruncated: boolean;
+  breakingChanges: boolean;
+  requiresMigration: boolean;
+  reason: string;
+  reasonMessage: string;
+  minimumSupportedVersion: string | null;
+  requiresSteppedUpgrade: boolean;
+  channel: string;
+  pinnedVersion: string | null;
+  channels: { id: string; description: string }[];
+  install: InstallState | null;
+  job: UpdateJob | null;
+  policy: UpdatePolicy;
+  effectivePolicy: string;
+  policies: { id: string; description: string }[];
+  maintenanceWindow: { opensAt: string; closesAt: string; open: boolean } | null;
+  nextAction: { action: 'check' | 'install'; at: string } | null;
 }
 
 interface UpdateInfo {
@@ -18,15 +105,88 @@ interface UpdateInfo {
   latestVersion: string | null;
   lastCheck: string;
   releaseName?: string;
-  releaseNotes?: string;
+  releaseNotes: ReleaseNotes[];
+  releaseNotesTruncated: boolean;
+  breakingChanges: boolean;
+  requiresMigration: boolean;
+  reason: string;
+  reasonMessage: string;
+  minimumSupportedVersion: string | null;
+  requiresSteppedUpgrade: boolean;
   error?: string;
 }
 
+const SOURCE_LABELS = {
+  github: 'GitHub',
+  http: 'Feed',
+  local: 'Folder'
+};
+
+const PHASE_LABELS: Record<UpdatePhase, string> = {
+  checking: 'Checking release',
+  downloading: 'Downloading',
+  verifying: 'Verifying',
+  extracting: 'Extracting',
+  installing: 'Installing',
+  restarting: 'Restarting',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const HISTORY_EVENT_LABELS: Record<UpdateHistoryEntry['event'], string> = {
+  check: 'Update check',
+  download: 'Download',
+  install: 'Install',
+  rollback: 'Rollback'
+};
+
+const HISTORY_OUTCOME_STYLES: Record<UpdateHistoryEntry['outcome'], string> = {
+  succeeded: 'bg-green-400',
+  failed: 'bg-red-400',
+  cancelled: 'bg-yellow-400'
+};
+
+const UPDATE_POLICY_HINTS: Record<string, string> = {
+  manual: 'Nothing runs in the background; use Check for Updates.',
+  notify: 'Updates are offered here when found, and installed only when you choose.',
+  postpone: 'No checks or installs until the postponement ends.'
+};
+
+const ACTIVE_PHASES: UpdatePhase[] = ['checking', 'downloading', 'verifying', 'extracting', 'installing'];
+
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInputValue(iso: string | null): string {
+  if (!iso) {
+    return '';
+  }
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 60000 ? `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
 export default function UpdaterPage() {
   const [status, setStatus] = useState<UpdaterStatus | null>(null);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
   const [showUpdatePopup, setShowUpdatePopup] = useState(false);
+  const [selectedChannel, setSelectedChannel] = useState('stable');
+  const [pinnedVersion, setPinnedVersion] = useState('');
+  const [job, setJob] = useState<UpdateJob | null>(null);
+  const [selectedPolicy, setSelectedPolicy] = useState('notify');
+  const [maintenanceWindow, setMaintenanceWindow] = useState('');
+  const [windowMinutes, setWindowMinutes] = useState('');
+  const [postponeUntil, setPostponeUntil] = useState('');
+  const [history, setHistory] = useState<UpdateHistoryEntry[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<number | null>(null);
+  const [historyEvent, setHistoryEvent] = useState('');
+  const [breakingAcknowledged, setBreakingAcknowledged] = useState(false);
 
   const loadStatus = useCallback(async () => {
     try {
@@ -48,6 +208,33 @@ export default function UpdaterPage() {
     }
   }, [showUpdatePopup]);
 
+  // Newest entries, or the next older page when given a cursor
+  const loadHistory = useCallback(async (before?: number) => {
+    try {
+      const params = new URLSearchParams({ limit: '20' });
+      if (before) {
+        params.set('before', String(before));
+      }
+      if (historyEvent) {
+        params.set('event', historyEvent);
+      }
+
+      const response = await fetch(`/api/updater/history?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setHistory(prev => before ? [...prev, ...data.data] : data.data);
+        setHistoryCursor(data.nextCursor);
+      }
+    } catch (error) {
+      console.error('Failed to load update history:', error);
+    }
+  }, [historyEvent]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
   const checkForUpdatesBackground = useCallback(async () => {
     try {
       const response = await fetch('/api/updater', {
@@ -72,7 +259,15 @@ export default function UpdaterPage() {
           lastCheck: updateInfo.lastCheck,
           updateAvailable: updateInfo.updateAvailable,
           latestVersion: updateInfo.latestVersion,
-          releaseName: updateInfo.releaseName
+          releaseName: updateInfo.releaseName,
+          releaseNotes: updateInfo.releaseNotes,
+          releaseNotesTruncated: updateInfo.releaseNotesTruncated,
+          breakingChanges: updateInfo.breakingChanges,
+          requiresMigration: updateInfo.requiresMigration,
+          reason: updateInfo.reason,
+          reasonMessage: updateInfo.reasonMessage,
+          minimumSupportedVersion: updateInfo.minimumSupportedVersion,
+          requiresSteppedUpgrade: updateInfo.requiresSteppedUpgrade
         } : null);
       }
     } catch (error) {
@@ -93,13 +288,75 @@ export default function UpdaterPage() {
     return () => clearInterval(interval);
   }, [status?.isRunning, loadStatus, checkForUpdatesBackground]);
 
-  const performAction = async (action: string) => {
+  // Follow update progress; EventSource reconnects on its own, including
+  // after the application restarts into the new version
+  useEffect(() => {
+    const events = new EventSource('/api/updater/events');
+
+    events.addEventListener('snapshot', (event) => {
+      setJob(JSON.parse((event as MessageEvent).data));
+    });
+    events.addEventListener('state', (event) => {
+      const state = JSON.parse((event as MessageEvent).data) as UpdateJobState;
+      setJob(prev => ({ ...state, log: prev?.id === state.id ? prev.log : [] }));
+    });
+    events.addEventListener('log', (event) => {
+      const entry = JSON.parse((event as MessageEvent).data) as UpdateJobLogEntry;
+      setJob(prev => prev ? { ...prev, log: [...prev.log, entry] } : prev);
+    });
+
+    return () => events.close();
+  }, []);
+
+  // Refresh the status once a job ends, e.g. to show a failed update's reason
+  const jobPhase = job?.phase;
+  useEffect(() => {
+    if (jobPhase === 'failed' || jobPhase === 'cancelled') {
+      loadStatus();
+    }
+    if (jobPhase === 'failed' || jobPhase === 'cancelled' || jobPhase === 'restarting') {
+      loadHistory();
+    }
+  }, [jobPhase, loadStatus, loadHistory]);
+
+  const jobActive = !!job && ACTIVE_PHASES.includes(job.phase);
+
+  // Keep the channel form in step with the server when the saved values change
+  const savedChannel = status?.channel;
+  const savedPinnedVersion = status?.pinnedVersion;
+  useEffect(() => {
+    if (savedChannel) {
+      setSelectedChannel(savedChannel);
+      setPinnedVersion(savedPinnedVersion ?? '');
+    }
+  }, [savedChannel, savedPinnedVersion]);
+
+  // Same for the policy form
+  const savedPolicy = status ? JSON.stringify(status.policy) : null;
+  useEffect(() => {
+    if (savedPolicy) {
+      const policy: UpdatePolicy = JSON.parse(savedPolicy);
+      setSelectedPolicy(policy.mode);
+      setMaintenanceWindow(policy.maintenanceWindow);
+      setWindowMinutes(String(policy.windowMinutes));
+      setPostponeUntil(toLocalInputValue(policy.postponeUntil));
+    }
+  }, [savedPolicy]);
+
+  const savePolicy = () => performAction('set-policy', {
+    mode: selectedPolicy,
+    maintenanceWindow: maintenanceWindow.trim(),
+    windowMinutes: Number(windowMinutes),
+    postponeUntil: selectedPolicy === 'postpone' && postponeUntil ? new Date(postponeUntil).toISOString() : null
+  });
+
+  const performAction = async (action: string, params: Record<string, unknown> = {}) => {
     setLoading(true);
     try {
       const response = await fetch('/api/updater', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action })
+        body: JSON.stringify({ action, ...params })
       });
       
       const data = await response.json();
@@ -108,11 +365,12 @@ export default function UpdaterPage() {
         setMessage(data.data.message);
         
         if (action === 'update') {
-          setMessage('Update initiated - Application will restart in a few seconds...');
+          setJob(data.data.job);
           setShowUpdatePopup(false);
-        } else {
+        } else if (action !== 'rollback' && action !== 'cancel') {
           await loadStatus();
         }
+        await loadHistory();
       } else {
         setMessage(`Error: ${data.error}`);
       }
@@ -126,11 +384,13 @@ export default function UpdaterPage() {
 
   const handleUpdateNow = () => {
     setShowUpdatePopup(false);
+    setBreakingAcknowledged(false);
     performAction('update');
   };
 
   const handleUpdateLater = () => {
     setShowUpdatePopup(false);
+    setBreakingAcknowledged(false);
   };
 
   return (
@@ -139,7 +399,7 @@ export default function UpdaterPage() {
         {/* Update Available Popup */}
         {showUpdatePopup && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg p-6 max-w-md mx-4 shadow-xl">
+            <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 shadow-xl max-h-[90vh] flex flex-col">
               <div className="flex items-center mb-4">
                 <div className="flex-shrink-0">
                   <svg className="h-8 w-8 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -170,7 +430,61 @@ export default function UpdaterPage() {
                   The application will close briefly during the update process and restart automatically.
                 </p>
               </div>
-              
+
+              {(status?.breakingChanges || status?.requiresMigration) && (
+                <div className="mb-4 bg-yellow-50 border border-yellow-300 rounded-md p-3 space-y-1">
+                  {status.breakingChanges && (
+                    <p className="text-sm font-medium text-yellow-800">
+                      This update includes breaking changes. Read the notes marked &quot;Breaking&quot; below before updating.
+                    </p>
+                  )}
+                  {status.requiresMigration && (
+                    <p className="text-sm text-yellow-800">
+                      This update changes the database. A backup is taken first, but rolling back afterwards also reverts the database changes.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {status && status.releaseNotes.length > 0 && (
+                <div className="mb-4 overflow-y-auto min-h-0 flex-1 border border-gray-200 rounded-md divide-y divide-gray-200">
+                  {status.releaseNotes.map(notes => (
+                    <div key={notes.version} className="p-3">
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <span className="text-sm font-semibold text-gray-900 font-mono">v{notes.version}</span>
+                        {notes.breaking && (
+                          <span className="px-2 py-0.5 text-xs font-medium text-red-800 bg-red-100 rounded">Breaking</span>
+                        )}
+                        {notes.requiresMigration && (
+                          <span className="px-2 py-0.5 text-xs font-medium text-yellow-800 bg-yellow-100 rounded">Database migration</span>
+                        )}
+                        {notes.publishedAt && (
+                          <span className="text-xs text-gray-500">{new Date(notes.publishedAt).toLocaleDateString()}</span>
+                        )}
+                      </div>
+                      {notes.body
+                        ? <Markdown source={notes.body} />
+                        : <p className="text-sm text-gray-500">No release notes</p>}
+                    </div>
+                  ))}
+                  {status.releaseNotesTruncated && (
+                    <p className="p-3 text-xs text-gray-500">Notes of older releases are not shown.</p>
+                  )}
+                </div>
+              )}
+
+              {status?.breakingChanges && (
+                <label className="mb-4 flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={breakingAcknowledged}
+                    onChange={(e) => setBreakingAcknowledged(e.target.checked)}
+                    className="mr-2"
+                  />
+                  I have read the breaking changes
+                </label>
+              )}
+
               <div className="flex justify-end space-x-3">
                 <button
                   onClick={handleUpdateLater}
@@ -180,10 +494,10 @@ export default function UpdaterPage() {
                 </button>
                 <button
                   onClick={handleUpdateNow}
-                  disabled={loading}
+                  disabled={loading || jobActive || (!!status?.breakingChanges && !breakingAcknowledged)}
                   className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
                 >
-                  {loading ? 'Updating...' : 'Update Now'}
+                  {jobActive ? 'Updating...' : 'Update Now'}
                 </button>
               </div>
             </div>
@@ -212,7 +526,7 @@ export default function UpdaterPage() {
                       <div className="mt-1 flex items-center">
                         <div className={`h-3 w-3 rounded-full mr-2 ${status.isRunning ? 'bg-green-400' : 'bg-red-400'}`}></div>
                         <span className="text-sm text-gray-900">
-                          {status.isRunning ? 'Running (Hourly Checks)' : 'Stopped'}
+                          {status.isRunning ? `Running (${status.effectivePolicy} policy)` : 'Stopped'}
                         </span>
                       </div>
                     </div>
@@ -230,8 +544,19 @@ export default function UpdaterPage() {
                     </div>
                     
                     <div>
-                      <label className="block text-sm font-medium text-gray-700">Repository</label>
-                      <p className="mt-1 text-sm text-gray-900 font-mono">{status.repository}</p>
+                      <label className="block text-sm font-medium text-gray-700">Next Scheduled Action</label>
+                      <p className="mt-1 text-sm text-gray-900">
+                        {status.nextAction
+                          ? `${status.nextAction.action === 'install' ? 'Maintenance window check and install' : 'Update check'} at ${new Date(status.nextAction.at).toLocaleString()}`
+                          : 'None'}
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Update Source</label>
+                      <p className="mt-1 text-sm text-gray-900 font-mono">
+                        {status.source ? `${SOURCE_LABELS[status.source.kind]}: ${status.source.location}` : 'Not configured'}
+                      </p>
                     </div>
                     
                     {status.releaseName && (
@@ -246,8 +571,32 @@ export default function UpdaterPage() {
                       <p className="mt-1 text-sm text-gray-900">
                         {status.lastCheck ? new Date(status.lastCheck).toLocaleString() : 'Never'}
                       </p>
+                      {status.reasonMessage && (
+                        <p className="mt-1 text-xs text-gray-500">{status.reasonMessage}</p>
+                      )}
                     </div>
 
+                    {status.install?.status === 'rolled-back' && (
+                      <div className="md:col-span-2">
+                        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                          <h3 className="text-sm font-medium text-red-800">Update Rolled Back</h3>
+                          <p className="mt-1 text-sm text-red-700">{status.install.message}</p>
+                        </div>
+                      </div>
+                    )}
+
+                    {status.requiresSteppedUpgrade && (
+                      <div className="md:col-span-2">
+                        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
+                          <h3 className="text-sm font-medium text-yellow-800">Stepped Upgrade Required</h3>
+                          <p className="mt-1 text-sm text-yellow-700">
+                            Version {status.latestVersion} cannot be installed directly over v{status.localVersion}.
+                            Install v{status.minimumSupportedVersion} or later first, then update again.
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
                     {status.updateAvailable && (
                       <div className="md:col-span-2">
                         <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
@@ -292,16 +641,238 @@ export default function UpdaterPage() {
 
                 {status?.updateAvailable && (
                   <button
-                    onClick={() => performAction('update')}
-                    disabled={loading}
+                    onClick={() => setShowUpdatePopup(true)}
+                    disabled={loading || jobActive}
                     className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
                   >
-                    {loading ? 'Updating...' : 'Update Now'}
+                    {jobActive ? 'Updating...' : 'Update Now'}
+                  </button>
+                )}
+
+                {job?.cancellable && (
+                  <button
+                    onClick={() => performAction('cancel')}
+                    disabled={loading}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    Cancel Update
+                  </button>
+                )}
+
+                {status?.install?.previous && (
+                  <button
+                    onClick={() => {
+                      if (confirm(`Roll back to v${status.install!.previous!.version}? The application will restart.`)) {
+                        performAction('rollback');
+                      }
+                    }}
+                    disabled={loading || jobActive}
+                    className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+                  >
+                    Roll Back to v{status.install.previous.version}
                   </button>
                 )}
               </div>
             </div>
 
+            {/* Progress Section */}
+            {job && (
+              <div className="mb-8">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">
+                  Update {job.version ? `to v${job.version}` : ''}
+                </h2>
+
+                <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className={`font-medium ${job.phase === 'failed' ? 'text-red-700' : 'text-gray-900'}`}>
+                      {PHASE_LABELS[job.phase]}
+                    </span>
+                    {job.bytesTotal ? (
+                      <span className="text-gray-600 font-mono">
+                        {formatBytes(job.bytesDownloaded)} / {formatBytes(job.bytesTotal)}
+                      </span>
+                    ) : null}
+                  </div>
+
+                  {job.phase === 'downloading' && job.bytesTotal ? (
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-blue-600 h-2 rounded-full transition-all"
+                        style={{ width: `${Math.min(100, (job.bytesDownloaded / job.bytesTotal) * 100)}%` }}
+                      ></div>
+                    </div>
+                  ) : jobActive ? (
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div className="bg-blue-600 h-2 rounded-full animate-pulse w-full"></div>
+                    </div>
+                  ) : null}
+
+                  {job.error && (
+                    <p className="text-sm text-red-700">{job.error}</p>
+                  )}
+
+                  {job.log.length > 0 && (
+                    <div className="max-h-48 overflow-y-auto bg-white border border-gray-200 rounded-md p-2 font-mono text-xs space-y-1">
+                      {job.log.map((entry, index) => (
+                        <div
+                          key={index}
+                          className={entry.level === 'error' ? 'text-red-700' : entry.level === 'warn' ? 'text-yellow-700' : 'text-gray-700'}
+                        >
+                          <span className="text-gray-400">{new Date(entry.time).toLocaleTimeString()}</span> {entry.message}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Channel Section */}
+            {status && (
+              <div className="mb-8">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Release Channel</h2>
+
+                <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="channel" className="block text-sm font-medium text-gray-700">Channel</label>
+                      <select
+                        id="channel"
+                        value={selectedChannel}
+                        onChange={(e) => setSelectedChannel(e.target.value)}
+                        disabled={loading}
+                        className="mt-1 block w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {status.channels.map(channel => (
+                          <option key={channel.id} value={channel.id}>
+                            {channel.id} - {channel.description}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label htmlFor="pinnedVersion" className="block text-sm font-medium text-gray-700">Pin to Version (optional)</label>
+                      <input
+                        id="pinnedVersion"
+                        type="text"
+                        value={pinnedVersion}
+                        onChange={(e) => setPinnedVersion(e.target.value)}
+                        placeholder="e.g. 1.2.3"
+                        disabled={loading}
+                        className="mt-1 block w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">
+                      {status.pinnedVersion
+                        ? `Pinned to v${status.pinnedVersion}; channel updates are ignored until the pin is cleared.`
+                        : `Following the ${status.channel} channel.`}
+                    </p>
+                    <button
+                      onClick={() => performAction('set-channel', { channel: selectedChannel, pinnedVersion: pinnedVersion.trim() || null })}
+                      disabled={loading || (selectedChannel === status.channel && pinnedVersion.trim() === (status.pinnedVersion ?? ''))}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                      Save Channel
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Policy Section */}
+            {status && (
+              <div className="mb-8">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Update Policy</h2>
+
+                <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+                  <div>
+                    <label htmlFor="policy" className="block text-sm font-medium text-gray-700">Policy</label>
+                    <select
+                      id="policy"
+                      value={selectedPolicy}
+                      onChange={(e) => setSelectedPolicy(e.target.value)}
+                      disabled={loading}
+                      className="mt-1 block w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {status.policies.map(policy => (
+                        <option key={policy.id} value={policy.id}>
+                          {policy.id} - {policy.description}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {selectedPolicy === 'auto' && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="maintenanceWindow" className="block text-sm font-medium text-gray-700">Window Opens (cron)</label>
+                        <input
+                          id="maintenanceWindow"
+                          type="text"
+                          value={maintenanceWindow}
+                          onChange={(e) => setMaintenanceWindow(e.target.value)}
+                          placeholder="e.g. 0 2 * * 6 (Saturdays at 02:00)"
+                          disabled={loading}
+                          className="mt-1 block w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+
+                      <div>
+                        <label htmlFor="windowMinutes" className="block text-sm font-medium text-gray-700">Window Length (minutes)</label>
+                        <input
+                          id="windowMinutes"
+                          type="number"
+                          min={15}
+                          max={1440}
+                          value={windowMinutes}
+                          onChange={(e) => setWindowMinutes(e.target.value)}
+                          disabled={loading}
+                          className="mt-1 block w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {selectedPolicy === 'postpone' && (
+                    <div>
+                      <label htmlFor="postponeUntil" className="block text-sm font-medium text-gray-700">Postpone Until</label>
+                      <input
+                        id="postponeUntil"
+                        type="datetime-local"
+                        value={postponeUntil}
+                        onChange={(e) => setPostponeUntil(e.target.value)}
+                        disabled={loading}
+                        className="mt-1 block w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">
+                      {status.maintenanceWindow
+                        ? status.maintenanceWindow.open
+                          ? `Maintenance window open until ${new Date(status.maintenanceWindow.closesAt).toLocaleString()}.`
+                          : `Next maintenance window: ${new Date(status.maintenanceWindow.opensAt).toLocaleString()} to ${new Date(status.maintenanceWindow.closesAt).toLocaleTimeString()}.`
+                        : status.policy.mode === 'postpone' && status.effectivePolicy !== 'postpone'
+                          ? 'The postponement has ended; updates are offered but not installed unattended.'
+                          : UPDATE_POLICY_HINTS[status.effectivePolicy] ?? ''}
+                    </p>
+                    <button
+                      onClick={savePolicy}
+                      disabled={loading}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                      Save Policy
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Message Section */}
             {message && (
               <div className="mb-8">
@@ -320,6 +891,63 @@ export default function UpdaterPage() {
               </div>
             )}
 
+            {/* History Section */}
+            <div className="mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-medium text-gray-900">Update History</h2>
+                <select
+                  value={historyEvent}
+                  onChange={(e) => setHistoryEvent(e.target.value)}
+                  className="px-3 py-1 text-sm text-gray-900 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">All events</option>
+                  {Object.entries(HISTORY_EVENT_LABELS).map(([event, label]) => (
+                    <option key={event} value={event}>{label}s</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="bg-gray-50 rounded-lg p-4">
+                {history.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nothing recorded yet</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-1.5 space-y-4">
+                    {history.map(entry => (
+                      <li key={entry.id} className="ml-4">
+                        <div className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${HISTORY_OUTCOME_STYLES[entry.outcome]}`}></div>
+                        <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                          <p className="text-sm font-medium text-gray-900">
+                            {HISTORY_EVENT_LABELS[entry.event]} {entry.outcome}
+                            {entry.toVersion && (
+                              <span className="ml-2 font-mono text-gray-600">
+                                {entry.fromVersion ? `v${entry.fromVersion} → ` : ''}v{entry.toVersion}
+                              </span>
+                            )}
+                          </p>
+                          <time className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString()}</time>
+                        </div>
+                        {entry.message && <p className="text-sm text-gray-700">{entry.message}</p>}
+                        {entry.error && <p className="text-sm text-red-700">{entry.error}</p>}
+                        <p className="text-xs text-gray-500">
+                          by {entry.initiatedBy}
+                          {entry.durationMs !== null && ` · took ${formatDuration(entry.durationMs)}`}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+
+                {historyCursor && (
+                  <button
+                    onClick={() => loadHistory(historyCursor)}
+                    className="mt-4 text-sm font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    Show older entries
+                  </button>
+                )}
+              </div>
+            </div>
+
             {/* Information Section */}
             <div>
               <h2 className="text-lg font-medium text-gray-900 mb-4">How It Works</h2>
@@ -332,19 +960,35 @@ export default function UpdaterPage() {
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
-                    <span>Checks for new releases every hour, but only when internet is available</span>
+                    <span>Checks for new releases in the background (hourly by default, with a random delay so many sites do not check at once), but only when the update source can be reached</span>
+                  </li>
+                  <li className="flex items-start">
+                    <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
+                    <span>Only a newer version on the selected release channel (or the pinned version) is offered - downgrades are never installed automatically</span>
+                  </li>
+                  <li className="flex items-start">
+                    <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
+                    <span>When an update is found, a popup shows the release notes of every version since yours and asks if you want to update; breaking changes and database migrations are called out first</span>
+                  </li>
+                  <li className="flex items-start">
+                    <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
+                    <span>With the auto policy, updates install unattended only inside the maintenance window; an update that is not ready to install before the window closes waits for the next one</span>
+                  </li>
+                  <li className="flex items-start">
+                    <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
+                    <span>Every package is checked against a signed manifest before anything is installed - tampered or incomplete downloads are rejected</span>
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
-                    <span>Detects updates by comparing version numbers - any version difference means an update is available</span>
+                    <span>Update progress is shown live; downloads resume where they stopped, and an update can be cancelled until installation starts</span>
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
-                    <span>When an update is found, a popup will appear asking if you want to update</span>
+                    <span>Each version is installed into its own folder and the application restarts into it; the previous version is kept for rollback</span>
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
-                    <span>The application will restart automatically after the update is applied</span>
+                    <span>If the new version does not pass its health check after restarting, the previous version and database are restored automatically</span>
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
@@ -352,7 +996,7 @@ export default function UpdaterPage() {
                   </li>
                   <li className="flex items-start">
                     <span className="flex-shrink-0 h-5 w-5 text-gray-400 mr-2">•</span>
-                    <span>Designed to work offline - no update checks when internet is unavailable</span>
+                    <span>Sites without internet access can update from a release feed on the local network or from a folder or USB drive (UPDATER_SOURCE)</span>
                   </li>
                 </ul>
               </div>
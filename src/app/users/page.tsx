@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 
 interface User {
   id: number;
@@ -9,34 +9,82 @@ interface User {
   role: string;
   created_at: string;
   updated_at: string;
+  disabled_at: string | null;
 }
 
 interface UsersResponse {
   success: boolean;
   data: User[];
   count: number;
+  total: number;
+  nextCursor: string | null;
   error?: string;
   details?: string;
 }
 
+interface UserFilters {
+  search: string;
+  role: string;
+  status: string;
+  /** field:order, e.g. created_at:desc */
+  sort: string;
+}
+
+const PAGE_SIZE = 50;
+const SEARCH_DELAY_MS = 300;
+
+const SORT_OPTIONS = [
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'username:asc', label: 'Username A-Z' },
+  { value: 'username:desc', label: 'Username Z-A' },
+  { value: 'email:asc', label: 'Email A-Z' },
+  { value: 'role:asc', label: 'Role' },
+  { value: 'updated_at:desc', label: 'Recently updated' },
+];
+
+const DEFAULT_FILTERS: UserFilters = { search: '', role: '', status: '', sort: 'created_at:desc' };
+
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [filters, setFilters] = useState<UserFilters>(DEFAULT_FILTERS);
+  const [searchInput, setSearchInput] = useState('');
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Responses to superseded requests (e.g. while typing) are ignored
+  const latestRequest = useRef(0);
   const [error, setError] = useState<string | null>(null);
   const [creatingSamples, setCreatingSamples] = useState(false);
+  const [samplePassword, setSamplePassword] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [updatingUserId, setUpdatingUserId] = useState<number | null>(null);
 
-  useEffect(() => {
-    fetchUsers();
-  }, []);
+  // Without a cursor the list starts over; with one the next page is appended
+  const fetchUsers = useCallback(async (cursor?: string) => {
+    const request = ++latestRequest.current;
+    const [sort, order] = filters.sort.split(':');
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), sort, order });
+    if (filters.search) params.set('search', filters.search);
+    if (filters.role) params.set('role', filters.role);
+    if (filters.status) params.set('status', filters.status);
+    if (cursor) params.set('cursor', cursor);
 
-  const fetchUsers = async () => {
     try {
-      setLoading(true);
-      const response = await fetch('/api/users');
+      if (cursor) {
+        setLoadingMore(true);
+      }
+      const response = await fetch(`/api/users?${params}`);
       const data: UsersResponse = await response.json();
+      if (request !== latestRequest.current) {
+        return;
+      }
       
       if (data.success) {
-        setUsers(data.data);
+        setUsers(current => (cursor ? [...current, ...data.data] : data.data));
+        setTotal(data.total);
+        setNextCursor(data.nextCursor);
         setError(null);
       } else {
         setError(data.error || 'Failed to fetch users');
@@ -45,9 +93,25 @@ export default function UsersPage() {
       setError('Network error: Failed to fetch users');
       console.error('Error fetching users:', err);
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
-  };
+  }, [filters]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(current => (current.search === searchInput.trim() ? current : { ...current, search: searchInput.trim() }));
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const hasFilters = filters.search !== '' || filters.role !== '' || filters.status !== '';
 
   const createSampleUsers = async () => {
     try {
@@ -58,6 +122,7 @@ export default function UsersPage() {
       const data = await response.json();
       
       if (data.success) {
+        setSamplePassword(data.password);
         // Refresh the users list
         await fetchUsers();
       } else {
@@ -71,6 +136,33 @@ export default function UsersPage() {
     }
   };
 
+  // Disabling is DELETE (users are never removed); enabling clears the flag
+  const setUserDisabled = async (user: User, disabled: boolean) => {
+    try {
+      setUpdatingUserId(user.id);
+      setActionError(null);
+      const response = disabled
+        ? await fetch(`/api/users/${user.id}`, { method: 'DELETE' })
+        : await fetch(`/api/users/${user.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ disabled: false }),
+          });
+      const data = await response.json();
+
+      if (data.success) {
+        setUsers(current => current.map(u => (u.id === user.id ? data.data : u)));
+      } else {
+        setActionError(data.error || `Failed to ${disabled ? 'disable' : 'enable'} ${user.username}`);
+      }
+    } catch (err) {
+      setActionError(`Network error: Failed to ${disabled ? 'disable' : 'enable'} ${user.username}`);
+      console.error('Error updating user:', err);
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     try {
       return new Date(dateString).toLocaleString();
@@ -109,7 +201,7 @@ export default function UsersPage() {
               <h3 className="text-sm font-medium text-red-800">Error Loading Users</h3>
               <p className="mt-1 text-sm text-red-700">{error}</p>
               <button
-                onClick={fetchUsers}
+                onClick={() => fetchUsers()}
                 className="mt-4 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded"
               >
                 Try Again
@@ -128,15 +220,45 @@ export default function UsersPage() {
         <p className="text-gray-600">Manage and view all registered users</p>
       </div>
 
+      {samplePassword && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-yellow-800">Sample user password</h3>
+          <p className="mt-1 text-sm text-yellow-700">
+            All sample users were created with the password{' '}
+            <code className="px-1 bg-yellow-100 rounded font-mono">{samplePassword}</code>.
+            It is shown only once and is not stored anywhere, so note it down now.
+          </p>
+          <button
+            onClick={() => setSamplePassword(null)}
+            className="mt-2 text-sm font-medium text-yellow-800 hover:underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-start">
+          <p className="text-sm text-red-700">{actionError}</p>
+          <button
+            onClick={() => setActionError(null)}
+            className="ml-4 text-sm font-medium text-red-800 hover:underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <div className="bg-white shadow-lg rounded-lg overflow-hidden">
         {/* Header */}
         <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-semibold text-gray-800">
-              All Users ({users.length})
+              {hasFilters ? 'Matching Users' : 'All Users'} ({total})
             </h2>
             <div className="flex gap-2">
-              {users.length === 0 && (
+              {/* Offered on a fresh install, where the only account is the first administrator */}
+              {!hasFilters && total <= 1 && (
                 <button
                   onClick={createSampleUsers}
                   disabled={creatingSamples}
@@ -146,7 +268,7 @@ export default function UsersPage() {
                 </button>
               )}
               <button
-                onClick={fetchUsers}
+                onClick={() => fetchUsers()}
                 className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
               >
                 Refresh
@@ -155,6 +277,49 @@ export default function UsersPage() {
           </div>
         </div>
 
+        {/* Filters */}
+        <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap gap-3">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search username or email"
+            aria-label="Search username or email"
+            className="flex-1 min-w-[200px] border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900"
+          />
+          <select
+            value={filters.role}
+            onChange={(e) => setFilters({ ...filters, role: e.target.value })}
+            aria-label="Filter by role"
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900"
+          >
+            <option value="">All roles</option>
+            <option value="admin">Admin</option>
+            <option value="moderator">Moderator</option>
+            <option value="user">User</option>
+          </select>
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+            aria-label="Filter by status"
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900"
+          >
+            <option value="">All statuses</option>
+            <option value="active">Active</option>
+            <option value="disabled">Disabled</option>
+          </select>
+          <select
+            value={filters.sort}
+            onChange={(e) => setFilters({ ...filters, sort: e.target.value })}
+            aria-label="Sort users"
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
         {/* Table */}
         {users.length === 0 ? (
           <div className="text-center py-12">
@@ -173,7 +338,9 @@ export default function UsersPage() {
             </svg>
             <h3 className="mt-2 text-sm font-medium text-gray-900">No users found</h3>
             <p className="mt-1 text-sm text-gray-500">
-              No users have been registered yet. Click &quot;Create Sample Users&quot; to add some test data.
+              {hasFilters
+                ? 'No users match the search and filters.'
+                : 'No users have been registered yet. Click "Create Sample Users" to add some test data.'}
             </p>
           </div>
         ) : (
@@ -193,12 +360,18 @@ export default function UsersPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Role
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Created At
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Updated At
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
@@ -218,16 +391,51 @@ export default function UsersPage() {
                         {user.role}
                       </span>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {user.disabled_at ? (
+                        <span
+                          className="bg-gray-100 text-gray-700 text-xs font-semibold px-2.5 py-0.5 rounded"
+                          title={`Disabled ${formatDate(user.disabled_at)}`}
+                        >
+                          disabled
+                        </span>
+                      ) : (
+                        <span className="bg-green-100 text-green-800 text-xs font-semibold px-2.5 py-0.5 rounded">
+                          active
+                        </span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatDate(user.created_at)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatDate(user.updated_at)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => setUserDisabled(user, !user.disabled_at)}
+                        disabled={updatingUserId === user.id}
+                        className={`font-medium hover:underline disabled:opacity-50 ${user.disabled_at ? 'text-green-700' : 'text-red-700'}`}
+                      >
+                        {user.disabled_at ? 'Enable' : 'Disable'}
+                      </button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
             </table>
+            <div className="px-6 py-3 border-t border-gray-200 flex justify-between items-center text-sm text-gray-600">
+              <span>Showing {users.length} of {total}</span>
+              {nextCursor && (
+                <button
+                  onClick={() => fetchUsers(nextCursor)}
+                  disabled={loadingMore}
+                  className="bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-800 font-medium py-1.5 px-4 rounded-lg transition-colors"
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              )}
+            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,38 @@
+// First line of the authorization layer: every request needs a session
+// cookie unless its path is public. API requests without one get a 401,
+// pages redirect to the login page. The cookie is only checked for being
+// present here; routes validate the session and check permissions through
+// lib/auth/authorize.
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, unauthenticatedResponse } from '../lib/auth/edge';
+
+const PUBLIC_PATHS = new Set([
+  '/',
+  '/login',
+  // Probed by builder/supervisor.mjs after an update, with no session
+  '/api/health',
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/auth/session',
+  '/api/auth/setup'
+]);
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.has(pathname) || request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return unauthenticatedResponse();
+  }
+
+  const login = new URL('/login', request.url);
+  login.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // Everything except build assets and files served from public/
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|ico|txt)$).*)']
+};